@@ -0,0 +1,415 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { fetchAssayAmplicon, fetchUserAssays, fetchUserOligos } from '@/lib/api'
+import { OLIGO_ROLE_LABELS, OLIGO_STRAND_LABELS } from '@/lib/oligoRoles'
+import { runInSilicoPcr } from '@/lib/pcr'
+import type { BindingSite } from '@/lib/pcr'
+import { complement, normalizeSequence, reverseComplement } from '@/lib/sequence'
+import type { Oligo, ReferenceAmplicon, UserAssay } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+const LINE_LENGTH = 60
+
+// Colours for the binding-site annotations, assigned in oligo order
+const SITE_COLORS = ['#4f46e5', '#059669', '#d97706', '#dc2626', '#0891b2', '#7c3aed', '#db2777', '#65a30d']
+
+interface Annotation {
+  oligoId: number
+  name: string
+  color: string
+  site: BindingSite
+}
+
+export default function AmpliconViewerPage() {
+  const searchParams = useSearchParams()
+  const assayParam = searchParams?.get('assay')
+  const assayId = assayParam ? parseInt(assayParam, 10) : NaN
+
+  const [assay, setAssay] = useState<UserAssay | null>(null)
+  const [amplicon, setAmplicon] = useState<ReferenceAmplicon | null>(null)
+  const [oligos, setOligos] = useState<Oligo[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Selected subsequence (1-based, inclusive)
+  const [selectFrom, setSelectFrom] = useState('')
+  const [selectTo, setSelectTo] = useState('')
+  const [copyMessage, setCopyMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isNaN(assayId)) {
+      setError('No assay selected')
+      setLoading(false)
+      return
+    }
+    const loadData = async () => {
+      try {
+        setError(null)
+        setLoading(true)
+        const [assayData, oligoData, ampliconData] = await Promise.all([
+          fetchUserAssays(),
+          fetchUserOligos(),
+          fetchAssayAmplicon(assayId),
+        ])
+        setAssay(assayData.find((a) => a.assay_id === assayId) || null)
+        setOligos(oligoData.filter((o) => o.assay_id === assayId))
+        setAmplicon(ampliconData)
+      } catch (err: any) {
+        setError(err.message || 'Failed to load reference amplicon')
+        console.error('Error loading reference amplicon:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadData()
+  }, [assayId])
+
+  const sequence = amplicon ? normalizeSequence(amplicon.amplicon_seq) : ''
+  const pcr = amplicon ? runInSilicoPcr(oligos, sequence) : null
+  const annotations: Annotation[] = (pcr?.mappings || [])
+    .map((m, idx) => ({
+      oligoId: m.oligo.oligo_id,
+      name: m.oligo.sequence_name,
+      color: SITE_COLORS[idx % SITE_COLORS.length],
+      site: m.site,
+    }))
+    .filter((a): a is Annotation => a.site !== null)
+
+  // Valid selection or null
+  const from = parseInt(selectFrom, 10)
+  const to = parseInt(selectTo, 10)
+  const selection =
+    !isNaN(from) && !isNaN(to) && from >= 1 && to >= from && to <= sequence.length ? { from, to } : null
+  const selectedSequence = selection ? sequence.substring(selection.from - 1, selection.to) : ''
+
+  const handleCopy = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopyMessage(`Copied ${label} (${text.length} bp)`)
+    } catch (err: any) {
+      setError(err.message || 'Failed to copy to clipboard')
+      console.error('Error copying to clipboard:', err)
+    }
+  }
+
+  const handleSelectSite = (site: BindingSite) => {
+    setSelectFrom(String(site.start))
+    setSelectTo(String(site.end))
+    setCopyMessage(null)
+  }
+
+  const lineStarts: number[] = []
+  for (let pos = 1; pos <= sequence.length; pos += LINE_LENGTH) {
+    lineStarts.push(pos)
+  }
+  const labelWidth = String(sequence.length).length
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            Reference Amplicon
+          </h1>
+          {assay && (
+            <p className="mt-1 text-gray-600 dark:text-gray-400">
+              {assay.assay_name} | {amplicon?.amplicon_name || assay.amplicon_name || 'Unnamed'}
+              {amplicon && ` | Version ${amplicon.amplicon_version} | ${sequence.length} bp`}
+            </p>
+          )}
+        </div>
+        <Link
+          href="/assay-repository"
+          className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg shadow-sm transition-colors"
+        >
+          Back to Assays
+        </Link>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-8 text-center">
+          <p className="text-gray-600 dark:text-gray-400">Loading reference amplicon...</p>
+        </div>
+      ) : amplicon && (
+        <>
+          {/* Copy Section */}
+          <div className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+              Copy Sequence
+            </h2>
+            <div className="flex flex-wrap items-end gap-4">
+              <div>
+                <label htmlFor="selectFrom" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  From
+                </label>
+                <input
+                  type="number"
+                  id="selectFrom"
+                  value={selectFrom}
+                  onChange={(e) => setSelectFrom(e.target.value)}
+                  min="1"
+                  max={sequence.length}
+                  className="w-28 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label htmlFor="selectTo" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  To
+                </label>
+                <input
+                  type="number"
+                  id="selectTo"
+                  value={selectTo}
+                  onChange={(e) => setSelectTo(e.target.value)}
+                  min="1"
+                  max={sequence.length}
+                  className="w-28 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <button
+                onClick={() => handleCopy(selectedSequence, 'selection')}
+                disabled={!selection}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-lg shadow-sm transition-colors"
+              >
+                Copy Selection
+              </button>
+              <button
+                onClick={() => handleCopy(reverseComplement(selectedSequence), 'reverse complement of selection')}
+                disabled={!selection}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-lg shadow-sm transition-colors"
+              >
+                Copy Reverse Complement
+              </button>
+              <button
+                onClick={() => handleCopy(sequence, 'full sequence')}
+                className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg shadow-sm transition-colors"
+              >
+                Copy Full Sequence
+              </button>
+              <button
+                onClick={() => handleCopy(reverseComplement(sequence), 'full reverse complement')}
+                className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg shadow-sm transition-colors"
+              >
+                Copy Full Reverse Complement
+              </button>
+            </div>
+            {(selectFrom || selectTo) && !selection && (
+              <p className="mt-2 text-sm text-red-600 dark:text-red-400">
+                Enter positions between 1 and {sequence.length}, From not after To
+              </p>
+            )}
+            {copyMessage && <p className="mt-2 text-sm text-green-700 dark:text-green-400">{copyMessage}</p>}
+          </div>
+
+          {/* Binding Sites Section */}
+          <div className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow">
+            <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+                Oligo Binding Sites
+              </h2>
+            </div>
+            {!pcr || pcr.mappings.length === 0 ? (
+              <div className="p-8 text-center">
+                <p className="text-gray-600 dark:text-gray-400">No oligos are assigned to this assay.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 dark:bg-gray-700">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Oligo
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Role
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Position
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Strand
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Mismatches
+                      </th>
+                      <th className="px-6 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                    {pcr.mappings.map(({ oligo, role, site }, idx) => (
+                      <tr key={oligo.oligo_id}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                          <span
+                            className="inline-block w-3 h-3 rounded-full mr-2 align-middle"
+                            style={{ backgroundColor: SITE_COLORS[idx % SITE_COLORS.length] }}
+                          />
+                          {oligo.sequence_name}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {role ? OLIGO_ROLE_LABELS[role] : <span className="italic">Not set</span>}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {site ? `${site.start}-${site.end}` : (
+                            <span className="text-red-600 dark:text-red-400">Not mapped</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {site && OLIGO_STRAND_LABELS[site.strand]}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {site && site.mismatches.length}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                          {site && (
+                            <button
+                              onClick={() => handleSelectSite(site)}
+                              className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                            >
+                              Select
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Sequence Map Section */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+            <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+                Sequence Map
+              </h2>
+              <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                Top strand 5&apos;-3&apos;, bottom strand 3&apos;-5&apos;. Sense binding sites are drawn above (&gt;),
+                antisense sites below (&lt;), mismatches as *.
+              </p>
+            </div>
+            <div className="p-6 overflow-x-auto">
+              <div className="font-mono text-xs text-gray-800 dark:text-gray-200 whitespace-pre leading-5">
+                {lineStarts.map((lineStart) => {
+                  const lineEnd = Math.min(lineStart + LINE_LENGTH - 1, sequence.length)
+                  const topStrand = sequence.substring(lineStart - 1, lineEnd)
+                  const overlapping = annotations.filter((a) => a.site.start <= lineEnd && a.site.end >= lineStart)
+                  const pad = ' '.repeat(labelWidth + 1)
+                  return (
+                    <div key={lineStart} className="mb-4">
+                      <div className="text-gray-400 dark:text-gray-500">
+                        {pad}
+                        {rulerLine(lineStart, lineEnd)}
+                      </div>
+                      {overlapping
+                        .filter((a) => a.site.strand === 'sense')
+                        .map((a) => (
+                          <AnnotationLine key={a.oligoId} annotation={a} lineStart={lineStart} lineEnd={lineEnd} pad={pad} />
+                        ))}
+                      <div>
+                        <span className="text-gray-400 dark:text-gray-500">{String(lineStart).padStart(labelWidth)} </span>
+                        <SequenceLine text={topStrand} lineStart={lineStart} selection={selection} />
+                      </div>
+                      <div>
+                        {pad}
+                        <SequenceLine text={complement(topStrand)} lineStart={lineStart} selection={selection} />
+                      </div>
+                      {overlapping
+                        .filter((a) => a.site.strand === 'antisense')
+                        .map((a) => (
+                          <AnnotationLine key={a.oligoId} annotation={a} lineStart={lineStart} lineEnd={lineEnd} pad={pad} />
+                        ))}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+// Tick marks every 10 positions, with the position number ending at the tick
+function rulerLine(lineStart: number, lineEnd: number): string {
+  const chars = Array(lineEnd - lineStart + 1).fill(' ')
+  for (let pos = lineStart; pos <= lineEnd; pos++) {
+    if (pos % 10 === 0) {
+      const label = String(pos)
+      const col = pos - lineStart
+      for (let i = 0; i < label.length && col - label.length + 1 + i >= 0; i++) {
+        chars[col - label.length + 1 + i] = label[i]
+      }
+    }
+  }
+  return chars.join('')
+}
+
+// One strand of one line, with the selected range highlighted
+function SequenceLine({
+  text,
+  lineStart,
+  selection,
+}: {
+  text: string
+  lineStart: number
+  selection: { from: number; to: number } | null
+}) {
+  if (!selection) return <span>{text}</span>
+  const lineEnd = lineStart + text.length - 1
+  const selStart = Math.max(selection.from, lineStart) - lineStart
+  const selEnd = Math.min(selection.to, lineEnd) - lineStart + 1
+  if (selStart >= selEnd) return <span>{text}</span>
+  return (
+    <span>
+      {text.substring(0, selStart)}
+      <span className="bg-yellow-200 dark:bg-yellow-700">{text.substring(selStart, selEnd)}</span>
+      {text.substring(selEnd)}
+    </span>
+  )
+}
+
+// Arrow line for the part of a binding site that falls on one line of the map
+function AnnotationLine({
+  annotation,
+  lineStart,
+  lineEnd,
+  pad,
+}: {
+  annotation: Annotation
+  lineStart: number
+  lineEnd: number
+  pad: string
+}) {
+  const { site } = annotation
+  const arrow = site.strand === 'sense' ? '>' : '<'
+  // Amplicon positions of the mismatches (antisense oligos run from site.end backwards)
+  const mismatchPositions = site.mismatches.map((k) => (site.strand === 'sense' ? site.start + k : site.end - k))
+  const from = Math.max(site.start, lineStart)
+  const to = Math.min(site.end, lineEnd)
+  let marks = ''
+  for (let pos = from; pos <= to; pos++) {
+    marks += mismatchPositions.includes(pos) ? '*' : arrow
+  }
+  return (
+    <div>
+      {pad}
+      {' '.repeat(from - lineStart)}
+      <span style={{ color: annotation.color }} className="font-semibold">
+        {marks}
+      </span>
+      <span style={{ color: annotation.color }}> {annotation.name}</span>
+    </div>
+  )
+}
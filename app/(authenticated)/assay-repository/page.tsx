@@ -1,30 +1,99 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { supabase } from '@/lib/supabase'
+import { useState, useEffect, useMemo } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import {
+  createUserAssay,
+  deleteUserAssay,
+  duplicateUserAssay,
+  fetchAmpliconVersions,
+  fetchAssayAmplicon,
+  fetchBlastAlignerJobs,
+  fetchUserAssays,
+  fetchUserOligos,
+  fetchUserTaxids,
+  updateUserAssay,
+} from '@/lib/api'
+import { MIN_CROSS_DIMER_DELTA_G, checkAssay } from '@/lib/assayCheck'
+import type { AssayCheck } from '@/lib/assayCheck'
+import { OLIGO_ROLE_LABELS, OLIGO_STRAND_LABELS } from '@/lib/oligoRoles'
+import { MAX_PCR_MISMATCHES, runInSilicoPcr } from '@/lib/pcr'
+import { formatTm } from '@/lib/sequence'
+import { SEQUENCE_FILE_ACCEPT, parseSequenceFile, readSequenceFile } from '@/lib/sequenceFile'
+import type { SequenceRecord } from '@/lib/sequenceFile'
+import type { Oligo, ReferenceAmplicon, TaxID, UserAssay } from '@/lib/types'
 
 export const dynamic = 'force-dynamic'
 
-// Type definitions
-interface UserAssay {
-  assay_id: number
-  assay_name: string
-  target_taxid: number | null
-  target_gene: string | null
-  assay_ref_amplicon: number
-  amplicon_name: string | null
-  created_at: string
+// Validate DNA sequence
+function validateDnaSequence(sequence: string): string | null {
+  // Remove spaces and convert to uppercase
+  const cleaned = sequence.replace(/\s/g, '').toUpperCase()
+
+  if (!cleaned) {
+    return 'Amplicon sequence is required'
+  }
+
+  // Check for valid DNA characters (A, C, G, T and IUPAC codes: R, Y, S, W, K, M, B, D, H, V, N)
+  const validChars = /^[ACGTIRYSWKMBDHVN]+$/
+  if (!validChars.test(cleaned)) {
+    return 'Sequence contains invalid characters. Only A, C, G, T and IUPAC ambiguous codes (R, Y, S, W, K, M, B, D, H, V, N) are allowed.'
+  }
+
+  return null
 }
 
-interface TaxID {
-  entry_id: number
-  taxid: number
-  taxid_spec: string | null
+// One record of the bulk import, checked against the existing assays and taxids
+interface ImportRecord {
+  name: string
+  sequence: string
+  targetTaxid: number | null // taxid_surveillance.entry_id
+  targetGene: string | null
+  error: string | null // the record is skipped on import if set
+}
+
+// Header tags such as "taxid=562" or "[gene=rpoB]" after the record name
+function parseHeaderTags(description: string): Record<string, string> {
+  const tags: Record<string, string> = {}
+  const tagPattern = /\[?(\w+)=([^\s\]]+)\]?/g
+  let match: RegExpExecArray | null
+  while ((match = tagPattern.exec(description)) !== null) {
+    tags[match[1].toLowerCase()] = match[2]
+  }
+  return tags
+}
+
+// First "<name> (copy)", "<name> (copy 2)", ... not used by another assay
+function suggestCopyName(name: string, assays: UserAssay[]): string {
+  const taken = new Set(assays.map((a) => a.assay_name))
+  let candidate = `${name} (copy)`
+  for (let i = 2; taken.has(candidate); i++) {
+    candidate = `${name} (copy ${i})`
+  }
+  return candidate
+}
+
+// Format date
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
 }
 
 export default function AssayRepositoryPage() {
+  const searchParams = useSearchParams()
   const [assays, setAssays] = useState<UserAssay[]>([])
   const [taxids, setTaxids] = useState<TaxID[]>([])
+  const [oligos, setOligos] = useState<Oligo[]>([])
+  const [checkAssayId, setCheckAssayId] = useState<number | null>(null)
+  const [pcrAssay, setPcrAssay] = useState<UserAssay | null>(null)
+  const [editAssay, setEditAssay] = useState<UserAssay | null>(null)
+  const [duplicateAssay, setDuplicateAssay] = useState<UserAssay | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [showForm, setShowForm] = useState(false)
@@ -43,32 +112,19 @@ export default function AssayRepositoryPage() {
   const [showImportForm, setShowImportForm] = useState(false)
   const [importFile, setImportFile] = useState<File | null>(null)
   const [importLoading, setImportLoading] = useState(false)
+  const [importRecords, setImportRecords] = useState<ImportRecord[] | null>(null)
+  const [importProgress, setImportProgress] = useState<{
+    total: number
+    success: number
+    failed: number
+    errors: Array<{ name: string; error: string }>
+  } | null>(null)
 
   // Fetch assays
   const fetchAssays = async () => {
     try {
       setError(null)
-      const { data, error: fetchError } = await supabase.rpc('fetch_user_assays')
-
-      if (fetchError) {
-        throw fetchError
-      }
-
-      // Handle the response - ensure data is an array and map to our type
-      if (data && Array.isArray(data)) {
-        const mappedData = data.map((item: any) => ({
-          assay_id: Number(item.assay_id),
-          assay_name: item.assay_name,
-          target_taxid: item.target_taxid ? Number(item.target_taxid) : null,
-          target_gene: item.target_gene || null,
-          assay_ref_amplicon: Number(item.assay_ref_amplicon),
-          amplicon_name: item.amplicon_name || null,
-          created_at: item.created_at,
-        }))
-        setAssays(mappedData)
-      } else {
-        setAssays([])
-      }
+      setAssays(await fetchUserAssays())
     } catch (err: any) {
       setError(err.message || 'Failed to fetch assays')
       console.error('Error fetching assays:', err)
@@ -80,156 +136,186 @@ export default function AssayRepositoryPage() {
   // Fetch taxids for dropdown
   const fetchTaxids = async () => {
     try {
-      const { data, error: fetchError } = await supabase.rpc('fetch_user_taxids')
-
-      if (fetchError) {
-        console.error('Error fetching taxids:', fetchError)
-        // Don't throw - taxids are optional
-        return
-      }
-
-      // Handle the response - ensure data is an array and map to our type
-      if (data && Array.isArray(data)) {
-        const mappedData = data.map((item: any) => ({
-          entry_id: Number(item.entry_id),
-          taxid: Number(item.taxid),
-          taxid_spec: item.taxid_spec || null,
-        }))
-        setTaxids(mappedData)
-      } else {
-        setTaxids([])
-      }
+      setTaxids(await fetchUserTaxids())
     } catch (err: any) {
       console.error('Error fetching taxids:', err)
       // Taxids are optional, so we continue even if this fails
     }
   }
 
+  // Fetch oligos for the compatibility checks
+  const fetchOligos = async () => {
+    try {
+      setOligos(await fetchUserOligos())
+    } catch (err: any) {
+      console.error('Error fetching oligos:', err)
+      // Checks are optional, so we continue even if this fails
+    }
+  }
+
   useEffect(() => {
     fetchAssays()
     fetchTaxids()
+    fetchOligos()
   }, [])
 
-  // Validate DNA sequence
-  const validateDnaSequence = (sequence: string): string | null => {
-    // Remove spaces and convert to uppercase
-    const cleaned = sequence.replace(/\s/g, '').toUpperCase()
+  // Compatibility check per assay with at least one oligo
+  const checks = useMemo(() => {
+    const map = new Map<number, AssayCheck>()
+    assays.forEach((assay) => {
+      const assayOligos = oligos.filter((o) => o.assay_id === assay.assay_id)
+      if (assayOligos.length > 0) {
+        map.set(assay.assay_id, checkAssay(assayOligos))
+      }
+    })
+    return map
+  }, [assays, oligos])
+
+  // ?assay=<id> highlights that assay (linked from the BLAST planner)
+  const highlightParam = searchParams?.get('assay')
+  const highlightedAssayId = highlightParam ? parseInt(highlightParam, 10) : null
 
-    if (!cleaned) {
-      return 'Amplicon sequence is required'
-    }
+  useEffect(() => {
+    if (loading || highlightedAssayId === null) return
+    document.getElementById(`assay-${highlightedAssayId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [loading, highlightedAssayId])
 
-    // Check for valid DNA characters (A, C, G, T and IUPAC codes: R, Y, S, W, K, M, B, D, H, V, N)
-    const validChars = /^[ACGTIRYSWKMBDHVN]+$/
-    if (!validChars.test(cleaned)) {
-      return 'Sequence contains invalid characters. Only A, C, G, T and IUPAC ambiguous codes (R, Y, S, W, K, M, B, D, H, V, N) are allowed.'
-    }
+  // Check every record before anything is created, so the preview shows which ones will be skipped
+  const buildImportRecords = (sequences: SequenceRecord[]): ImportRecord[] => {
+    const existingNames = new Set(assays.map((a) => a.assay_name))
+    const seenNames = new Set<string>()
 
-    return null
-  }
+    return sequences.map((seq) => {
+      const tags = parseHeaderTags(seq.description)
+      const sequence = seq.sequence.replace(/\s/g, '').toUpperCase()
+      let error = validateDnaSequence(sequence)
 
-  // Parse FASTA file (single entry only)
-  const parseFastaFile = (content: string): { name: string; sequence: string } | null => {
-    const sequences: Array<{ name: string; sequence: string }> = []
-    const lines = content.split('\n')
-    let currentName = ''
-    let currentSequence = ''
-
-    for (const line of lines) {
-      const trimmed = line.trim()
-      if (!trimmed) continue
-
-      if (trimmed.startsWith('>')) {
-        // Save previous sequence if exists
-        if (currentName && currentSequence) {
-          sequences.push({
-            name: currentName,
-            sequence: currentSequence,
-          })
+      let targetTaxid: number | null = null
+      if (tags.taxid) {
+        const taxidEntry = taxids.find((t) => String(t.taxid) === tags.taxid)
+        if (taxidEntry) {
+          targetTaxid = taxidEntry.entry_id
+        } else {
+          error = error || `TaxID ${tags.taxid} is not in your taxid list`
         }
-        // Start new sequence - remove '>' and take everything up to first space or newline
-        currentName = trimmed.substring(1).split(/\s+/)[0] || `Sequence_${sequences.length + 1}`
-        currentSequence = ''
-      } else {
-        // Append to current sequence
-        currentSequence += trimmed
       }
-    }
 
-    // Don't forget the last sequence
-    if (currentName && currentSequence) {
-      sequences.push({
-        name: currentName,
-        sequence: currentSequence,
-      })
-    }
-
-    if (sequences.length === 0) {
-      return null
-    }
-
-    if (sequences.length > 1) {
-      throw new Error('FASTA file must contain exactly one sequence. Found ' + sequences.length + ' sequences.')
-    }
+      if (existingNames.has(seq.name)) {
+        error = error || 'An assay with this name already exists'
+      } else if (seenNames.has(seq.name)) {
+        error = error || 'Duplicate name in file'
+      }
+      seenNames.add(seq.name)
 
-    return sequences[0]
+      return {
+        name: seq.name,
+        sequence,
+        targetTaxid,
+        targetGene: tags.gene || null,
+        error,
+      }
+    })
   }
 
-  // Handle file import
+  // Parse the selected file into the preview table
   const handleFileImport = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!importFile) {
-      setFormError('Please select a FASTA file')
+      setFormError('Please select a sequence file')
       return
     }
 
     setImportLoading(true)
     setFormError(null)
+    setImportProgress(null)
 
     try {
-      // Read file content
-      const fileContent = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader()
-        reader.onload = (e) => resolve(e.target?.result as string)
-        reader.onerror = reject
-        reader.readAsText(importFile)
-      })
-
-      // Parse FASTA file (must have exactly one sequence)
-      const parsed = parseFastaFile(fileContent)
+      // Read and parse file content
+      const { records: sequences } = parseSequenceFile(await readSequenceFile(importFile), importFile.name)
 
-      if (!parsed) {
-        setFormError('No sequence found in FASTA file')
-        setImportLoading(false)
+      if (sequences.length === 0) {
+        setFormError('No sequences found in file')
+        setImportRecords(null)
         return
       }
 
-      // Clean and validate sequence
-      const cleanedSequence = parsed.sequence.replace(/\s/g, '').toUpperCase()
-      const validationError = validateDnaSequence(cleanedSequence)
+      setImportRecords(buildImportRecords(sequences))
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to import sequence file')
+      console.error('Error importing sequence file:', err)
+    } finally {
+      setImportLoading(false)
+    }
+  }
 
-      if (validationError) {
-        setFormError(validationError)
-        setImportLoading(false)
-        return
-      }
+  // Open a single record in the add form to complete it by hand
+  const handleEditImportRecord = (record: ImportRecord) => {
+    setAssayName(record.name)
+    setTargetTaxid(record.targetTaxid)
+    setTargetGene(record.targetGene || '')
+    setAmpliconSequence(record.sequence)
+    setAmpliconName(record.name)
+    resetImport()
+    setShowForm(true)
+  }
+
+  // Create one assay per valid record; failures are reported per record
+  const handleConfirmImport = async () => {
+    if (!importRecords) return
+    const records = importRecords.filter((r) => r.error === null)
+    if (records.length === 0) {
+      setFormError('No valid records to import')
+      return
+    }
+
+    setImportLoading(true)
+    setFormError(null)
 
-      // Populate form fields
-      setAmpliconSequence(cleanedSequence)
-      if (parsed.name && !ampliconName.trim()) {
-        setAmpliconName(parsed.name)
+    let successCount = 0
+    let failedCount = 0
+    const errors: Array<{ name: string; error: string }> = []
+    setImportProgress({ total: records.length, success: 0, failed: 0, errors: [] })
+
+    for (const record of records) {
+      try {
+        await createUserAssay({
+          assayName: record.name,
+          ampliconSeq: record.sequence,
+          targetTaxid: record.targetTaxid,
+          targetGene: record.targetGene,
+          ampliconName: record.name,
+        })
+        successCount++
+      } catch (err: any) {
+        failedCount++
+        errors.push({
+          name: record.name,
+          error: err.message || 'Unknown error',
+        })
       }
 
-      // Close import form and show main form
-      setShowImportForm(false)
-      setImportFile(null)
-      setShowForm(true)
-    } catch (err: any) {
-      setFormError(err.message || 'Failed to import FASTA file')
-      console.error('Error importing FASTA file:', err)
-    } finally {
-      setImportLoading(false)
+      // Update progress
+      setImportProgress({
+        total: records.length,
+        success: successCount,
+        failed: failedCount,
+        errors: [...errors],
+      })
     }
+
+    // Refresh assays list
+    await fetchAssays()
+    setImportRecords(null)
+    setImportFile(null)
+    setImportLoading(false)
+  }
+
+  const resetImport = () => {
+    setShowImportForm(false)
+    setImportFile(null)
+    setImportRecords(null)
+    setImportProgress(null)
+    setFormError(null)
   }
 
   // Handle form submission
@@ -254,18 +340,14 @@ export default function AssayRepositoryPage() {
     setFormLoading(true)
 
     try {
-      const { data, error: createError } = await supabase.rpc('create_user_assay', {
-        p_assay_name: assayName.trim(),
-        p_amplicon_seq: cleanedSequence,
-        p_target_taxid: targetTaxid !== null && targetTaxid !== undefined ? targetTaxid : null,
-        p_target_gene: targetGene.trim() || null,
-        p_amplicon_name: ampliconName.trim() || null,
+      await createUserAssay({
+        assayName: assayName.trim(),
+        ampliconSeq: cleanedSequence,
+        targetTaxid: targetTaxid !== null && targetTaxid !== undefined ? targetTaxid : null,
+        targetGene: targetGene.trim() || null,
+        ampliconName: ampliconName.trim() || null,
       })
 
-      if (createError) {
-        throw createError
-      }
-
       // Reset form
       setAssayName('')
       setTargetTaxid(null)
@@ -294,13 +376,7 @@ export default function AssayRepositoryPage() {
     setDeleteLoading(assayId)
 
     try {
-      const { error: deleteError } = await supabase.rpc('delete_user_assay', {
-        p_assay_id: assayId,
-      })
-
-      if (deleteError) {
-        throw deleteError
-      }
+      await deleteUserAssay(assayId)
 
       // Refresh assays list
       await fetchAssays()
@@ -312,15 +388,16 @@ export default function AssayRepositoryPage() {
     }
   }
 
-  // Format date
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-    })
+  // Replace the edited assay in the list
+  const handleAssayUpdated = (updated: UserAssay) => {
+    setAssays((prev) => prev.map((a) => (a.assay_id === updated.assay_id ? updated : a)))
+    setEditAssay(null)
+  }
+
+  // Add the copy and its oligos to the lists
+  const handleAssayDuplicated = async () => {
+    setDuplicateAssay(null)
+    await Promise.all([fetchAssays(), fetchOligos()])
   }
 
   // Get taxid display string
@@ -341,10 +418,10 @@ export default function AssayRepositoryPage() {
         </h1>
         <div className="flex gap-3">
           <button
-            onClick={() => setShowImportForm(!showImportForm)}
+            onClick={() => (showImportForm ? resetImport() : setShowImportForm(true))}
             className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg shadow-sm transition-colors"
           >
-            {showImportForm ? 'Cancel Import' : 'Import from FASTA'}
+            {showImportForm ? 'Cancel Import' : 'Import from File'}
           </button>
           <button
             onClick={() => {
@@ -375,29 +452,125 @@ export default function AssayRepositoryPage() {
       {showImportForm && (
         <div className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow p-6">
           <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
-            Import Amplicon Sequence from FASTA File
+            Import Assays from Sequence File
           </h2>
           <form onSubmit={handleFileImport} className="space-y-4">
             <div>
               <label
-                htmlFor="fastaFile"
+                htmlFor="sequenceFile"
                 className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
               >
-                FASTA File <span className="text-red-500">*</span>
+                Sequence File <span className="text-red-500">*</span>
               </label>
               <input
                 type="file"
-                id="fastaFile"
-                accept=".fasta,.fa,.fas,.fna"
-                onChange={(e) => setImportFile(e.target.files?.[0] || null)}
+                id="sequenceFile"
+                accept={SEQUENCE_FILE_ACCEPT}
+                onChange={(e) => {
+                  setImportFile(e.target.files?.[0] || null)
+                  setImportRecords(null)
+                  setImportProgress(null)
+                }}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-green-500 focus:border-transparent"
                 required
               />
               <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                Select a FASTA file (.fasta, .fa, .fas, or .fna) containing exactly one sequence. The sequence will be imported as the reference amplicon.
+                Select a FASTA, GenBank, tab-separated (name, sequence) or plain-text/SnapGene .txt file. Each sequence
+                becomes an assay with its reference amplicon, named after the header up to the first space. Optional
+                tags in the header description, <code>taxid=562</code> and <code>gene=rpoB</code>, set the target
+                TaxID (must be in your taxid list) and target gene.
               </p>
             </div>
 
+            {importRecords && (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 dark:bg-gray-700">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Assay Name
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Target TaxID
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Target Gene
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Length
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Status
+                      </th>
+                      <th className="px-4 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {importRecords.map((record, idx) => (
+                      <tr key={idx} className={record.error ? 'bg-red-50 dark:bg-red-900/20' : ''}>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                          {record.name}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {getTaxidDisplay(record.targetTaxid)}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {record.targetGene || <span className="italic">Not specified</span>}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {record.sequence.length} bp
+                        </td>
+                        <td className="px-4 py-2 text-sm">
+                          {record.error ? (
+                            <span className="text-red-700 dark:text-red-300">{record.error}</span>
+                          ) : (
+                            <span className="text-green-700 dark:text-green-400">Ready</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-right text-sm">
+                          <button
+                            type="button"
+                            onClick={() => handleEditImportRecord(record)}
+                            className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                          >
+                            Edit in Form
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {importProgress && (
+              <div className="p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
+                <p className="text-sm text-blue-800 dark:text-blue-200 mb-2">
+                  Progress: {importProgress.success + importProgress.failed} / {importProgress.total}
+                </p>
+                <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2 mb-2">
+                  <div
+                    className="bg-blue-600 h-2 rounded-full transition-all"
+                    style={{
+                      width: `${((importProgress.success + importProgress.failed) / importProgress.total) * 100}%`,
+                    }}
+                  />
+                </div>
+                <p className="text-xs text-blue-700 dark:text-blue-300">
+                  ✓ Success: {importProgress.success} | ✗ Failed: {importProgress.failed}
+                </p>
+                {importProgress.errors.length > 0 && (
+                  <ul className="mt-2 text-xs text-red-700 dark:text-red-300 space-y-1">
+                    {importProgress.errors.map((err, idx) => (
+                      <li key={idx}>
+                        <strong>{err.name}:</strong> {err.error}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
             {formError && (
               <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
                 <p className="text-sm text-red-800 dark:text-red-200">{formError}</p>
@@ -405,23 +578,33 @@ export default function AssayRepositoryPage() {
             )}
 
             <div className="flex gap-3">
-              <button
-                type="submit"
-                disabled={importLoading || !importFile}
-                className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white rounded-lg shadow-sm transition-colors"
-              >
-                {importLoading ? 'Importing...' : 'Import Sequence'}
-              </button>
+              {importRecords ? (
+                <button
+                  type="button"
+                  onClick={handleConfirmImport}
+                  disabled={importLoading || importRecords.every((r) => r.error !== null)}
+                  className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white rounded-lg shadow-sm transition-colors"
+                >
+                  {importLoading
+                    ? 'Importing...'
+                    : `Import ${importRecords.filter((r) => r.error === null).length} Assay(s)`}
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={importLoading || !importFile}
+                  className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white rounded-lg shadow-sm transition-colors"
+                >
+                  {importLoading ? 'Reading...' : 'Preview Import'}
+                </button>
+              )}
               <button
                 type="button"
-                onClick={() => {
-                  setShowImportForm(false)
-                  setImportFile(null)
-                  setFormError(null)
-                }}
+                onClick={resetImport}
+                disabled={importLoading}
                 className="px-4 py-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-lg transition-colors"
               >
-                Cancel
+                {importProgress && !importRecords ? 'Close' : 'Cancel'}
               </button>
             </div>
           </form>
@@ -605,6 +788,9 @@ export default function AssayRepositoryPage() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                     Amplicon Name
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Oligo Checks
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                     Created At
                   </th>
@@ -615,7 +801,13 @@ export default function AssayRepositoryPage() {
               </thead>
               <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
                 {assays.map((assay) => (
-                  <tr key={assay.assay_id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                  <tr
+                    key={assay.assay_id}
+                    id={`assay-${assay.assay_id}`}
+                    className={`hover:bg-gray-50 dark:hover:bg-gray-700 ${
+                      assay.assay_id === highlightedAssayId ? 'bg-yellow-50 dark:bg-yellow-900/20' : ''
+                    }`}
+                  >
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
                       {assay.assay_name}
                     </td>
@@ -628,14 +820,40 @@ export default function AssayRepositoryPage() {
                       )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
-                      {assay.amplicon_name || (
-                        <span className="text-gray-400 dark:text-gray-500 italic">Unnamed</span>
-                      )}
+                      <Link
+                        href={`/amplicon-viewer?assay=${assay.assay_id}`}
+                        className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                        title="View reference amplicon"
+                      >
+                        {assay.amplicon_name || <span className="italic">Unnamed</span>}
+                      </Link>
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">v{assay.amplicon_version}</span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <CheckBadge check={checks.get(assay.assay_id)} onClick={() => setCheckAssayId(assay.assay_id)} />
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
                       {formatDate(assay.created_at)}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => setPcrAssay(assay)}
+                        className="mr-4 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                      >
+                        In-silico PCR
+                      </button>
+                      <button
+                        onClick={() => setEditAssay(assay)}
+                        className="mr-4 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => setDuplicateAssay(assay)}
+                        className="mr-4 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                      >
+                        Duplicate
+                      </button>
                       <button
                         onClick={() => handleDelete(assay.assay_id)}
                         disabled={deleteLoading === assay.assay_id}
@@ -651,6 +869,754 @@ export default function AssayRepositoryPage() {
           </div>
         )}
       </div>
+
+      {checkAssayId !== null && checks.has(checkAssayId) && (
+        <AssayCheckPanel
+          assayName={assays.find((a) => a.assay_id === checkAssayId)?.assay_name || ''}
+          check={checks.get(checkAssayId) as AssayCheck}
+          onClose={() => setCheckAssayId(null)}
+        />
+      )}
+
+      {pcrAssay && (
+        <InSilicoPcrPanel
+          assay={pcrAssay}
+          oligos={oligos.filter((o) => o.assay_id === pcrAssay.assay_id)}
+          onClose={() => setPcrAssay(null)}
+        />
+      )}
+
+      {editAssay && (
+        <EditAssayPanel
+          assay={editAssay}
+          taxids={taxids}
+          onSaved={handleAssayUpdated}
+          onClose={() => setEditAssay(null)}
+        />
+      )}
+
+      {duplicateAssay && (
+        <DuplicateAssayPanel
+          assay={duplicateAssay}
+          oligoCount={oligos.filter((o) => o.assay_id === duplicateAssay.assay_id).length}
+          defaultName={suggestCopyName(duplicateAssay.assay_name, assays)}
+          onDuplicated={handleAssayDuplicated}
+          onClose={() => setDuplicateAssay(null)}
+        />
+      )}
+    </div>
+  )
+}
+
+function CheckBadge({ check, onClick }: { check: AssayCheck | undefined; onClick: () => void }) {
+  if (!check) {
+    return <span className="text-gray-400 dark:text-gray-500 italic">No oligos</span>
+  }
+  return (
+    <button
+      onClick={onClick}
+      className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+        check.warnings.length > 0
+          ? 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300'
+          : 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300'
+      }`}
+    >
+      {check.warnings.length > 0
+        ? `${check.warnings.length} warning${check.warnings.length === 1 ? '' : 's'}`
+        : 'OK'}
+    </button>
+  )
+}
+
+interface AssayCheckPanelProps {
+  assayName: string
+  check: AssayCheck
+  onClose: () => void
+}
+
+// Tm of every oligo and cross-dimers of every oligo pair of one assay
+function AssayCheckPanel({ assayName, check, onClose }: AssayCheckPanelProps) {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+              Oligo Checks: {assayName}
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Primer Tm spread:{' '}
+              {check.primerTmSpread === null ? 'n/a' : `${check.primerTmSpread.toFixed(1)} °C`} | Probe Tm offset:{' '}
+              {check.probeTmOffset === null ? 'n/a' : `${check.probeTmOffset.toFixed(1)} °C`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg shadow-sm transition-colors"
+          >
+            Close
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {check.warnings.length > 0 && (
+            <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+              <ul className="text-sm text-yellow-800 dark:text-yellow-200 list-disc list-inside space-y-1">
+                {check.warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Oligos</h3>
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Name
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Role
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Tm (°C)
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {check.oligos.map(({ oligo, role, analysis }) => (
+                  <tr key={oligo.oligo_id}>
+                    <td className="px-4 py-2 text-sm font-medium text-gray-900 dark:text-white">{oligo.sequence_name}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400">
+                      {role ? OLIGO_ROLE_LABELS[role] : <span className="italic">Not set</span>}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400">
+                      {formatTm(analysis)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {check.crossDimers.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Cross-Dimers (warning below {MIN_CROSS_DIMER_DELTA_G} kcal/mol at 37 °C)
+              </h3>
+              <div className="space-y-3">
+                {check.crossDimers.map(({ oligoA, oligoB, dimer }) => (
+                  <div key={`${oligoA.oligo_id}-${oligoB.oligo_id}`}>
+                    <p
+                      className={`text-sm ${
+                        dimer && dimer.deltaG < MIN_CROSS_DIMER_DELTA_G
+                          ? 'text-yellow-800 dark:text-yellow-300 font-medium'
+                          : 'text-gray-600 dark:text-gray-400'
+                      }`}
+                    >
+                      {oligoA.sequence_name} / {oligoB.sequence_name}:{' '}
+                      {dimer === null ? 'n/a' : dimer.deltaG < 0 ? `${dimer.deltaG.toFixed(1)} kcal/mol` : 'None'}
+                    </p>
+                    {dimer && dimer.deltaG < 0 && (
+                      <pre className="mt-1 p-3 bg-gray-50 dark:bg-gray-900 rounded-lg text-xs text-gray-800 dark:text-gray-200 overflow-x-auto">
+                        {dimer.structure.join('\n')}
+                      </pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface InSilicoPcrPanelProps {
+  assay: UserAssay
+  oligos: Oligo[]
+  onClose: () => void
+}
+
+// Maps the oligos of one assay onto its reference amplicon
+function InSilicoPcrPanel({ assay, oligos, onClose }: InSilicoPcrPanelProps) {
+  const [amplicon, setAmplicon] = useState<ReferenceAmplicon | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchAmplicon = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        setAmplicon(await fetchAssayAmplicon(assay.assay_id))
+      } catch (err: any) {
+        setError(err.message || 'Failed to fetch reference amplicon')
+        console.error('Error fetching reference amplicon:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchAmplicon()
+  }, [assay.assay_id])
+
+  const result = amplicon ? runInSilicoPcr(oligos, amplicon.amplicon_seq) : null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-6xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+              In-silico PCR: {assay.assay_name}
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Reference amplicon: {amplicon?.amplicon_name || assay.amplicon_name || 'Unnamed'}
+              {amplicon && ` (${amplicon.amplicon_seq.length} bp)`} | Up to {MAX_PCR_MISMATCHES} mismatches, IUPAC
+              codes match all their bases
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg shadow-sm transition-colors"
+          >
+            Close
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {loading ? (
+            <p className="text-gray-600 dark:text-gray-400">Loading reference amplicon...</p>
+          ) : error ? (
+            <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-red-800 dark:text-red-200">{error}</p>
+            </div>
+          ) : !result || oligos.length === 0 ? (
+            <p className="text-gray-600 dark:text-gray-400">No oligos are assigned to this assay.</p>
+          ) : (
+            <>
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Predicted Products</h3>
+                {result.products.length === 0 ? (
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    No product: the assay needs a primer on the sense strand upstream of a primer on the antisense
+                    strand.
+                  </p>
+                ) : (
+                  <ul className="text-sm text-gray-900 dark:text-white space-y-1">
+                    {result.products.map((product) => (
+                      <li key={`${product.forward.oligo_id}-${product.reverse.oligo_id}`}>
+                        {product.forward.sequence_name} + {product.reverse.sequence_name}:{' '}
+                        <span className="font-semibold">{product.length} bp</span>{' '}
+                        <span className="text-gray-500 dark:text-gray-400">
+                          (positions {product.start}-{product.end})
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 dark:bg-gray-700">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Oligo
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Role
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Position
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Strand
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Alignment
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Warnings
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {result.mappings.map(({ oligo, role, site, warnings }) => (
+                      <tr key={oligo.oligo_id} className={site ? '' : 'bg-red-50 dark:bg-red-900/20'}>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                          {oligo.sequence_name}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {role ? OLIGO_ROLE_LABELS[role] : <span className="italic">Not set</span>}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {site ? `${site.start}-${site.end}` : 'Not mapped'}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {site && OLIGO_STRAND_LABELS[site.strand]}
+                        </td>
+                        <td className="px-4 py-2 text-xs font-mono text-gray-700 dark:text-gray-300">
+                          {site ? (
+                            <>
+                              <div>{oligo.dna_sequence}</div>
+                              <div>
+                                {site.alignment.split('').map((char, idx) => (
+                                  <span
+                                    key={idx}
+                                    className={char === '.' ? '' : 'bg-red-200 dark:bg-red-800 text-red-900 dark:text-red-100'}
+                                  >
+                                    {char}
+                                  </span>
+                                ))}
+                              </div>
+                            </>
+                          ) : (
+                            oligo.dna_sequence
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-sm">
+                          {warnings.length === 0 ? (
+                            <span className="text-green-700 dark:text-green-400">OK</span>
+                          ) : (
+                            <ul className="text-yellow-800 dark:text-yellow-300 space-y-1">
+                              {warnings.map((warning) => (
+                                <li key={warning}>{warning}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface EditAssayPanelProps {
+  assay: UserAssay
+  taxids: TaxID[]
+  onSaved: (assay: UserAssay) => void
+  onClose: () => void
+}
+
+// Edits all fields of an assay. A changed amplicon sequence is saved as a new amplicon version,
+// so BLAST jobs ordered before keep referencing the sequence they were run against.
+function EditAssayPanel({ assay, taxids, onSaved, onClose }: EditAssayPanelProps) {
+  const [versions, setVersions] = useState<ReferenceAmplicon[]>([])
+  const [jobCounts, setJobCounts] = useState<Map<number, number>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const [assayName, setAssayName] = useState(assay.assay_name)
+  const [targetTaxid, setTargetTaxid] = useState<number | null>(assay.target_taxid)
+  const [targetGene, setTargetGene] = useState(assay.target_gene || '')
+  const [ampliconName, setAmpliconName] = useState(assay.amplicon_name || '')
+  const [ampliconSequence, setAmpliconSequence] = useState('')
+
+  useEffect(() => {
+    const loadVersions = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const data = await fetchAmpliconVersions(assay.assay_id)
+        setVersions(data)
+        const current = data.find((v) => v.amplicon_id === assay.assay_ref_amplicon)
+        setAmpliconSequence(current?.amplicon_seq || '')
+      } catch (err: any) {
+        setError(err.message || 'Failed to fetch reference amplicon')
+        console.error('Error fetching amplicon versions:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+    const loadJobCounts = async () => {
+      try {
+        const jobs = await fetchBlastAlignerJobs()
+        const counts = new Map<number, number>()
+        jobs.forEach((job) => {
+          if (job.alignjob_assay_id === assay.assay_id && job.alignjob_amplicon_id !== null) {
+            counts.set(job.alignjob_amplicon_id, (counts.get(job.alignjob_amplicon_id) || 0) + 1)
+          }
+        })
+        setJobCounts(counts)
+      } catch (err) {
+        console.error('Error fetching BLAST jobs:', err)
+        // Job counts are optional, so we continue even if this fails
+      }
+    }
+    loadVersions()
+    loadJobCounts()
+  }, [assay.assay_id, assay.assay_ref_amplicon])
+
+  const current = versions.find((v) => v.amplicon_id === assay.assay_ref_amplicon)
+  const cleanedSequence = ampliconSequence.replace(/\s/g, '').toUpperCase()
+  const sequenceChanged = current !== undefined && cleanedSequence !== current.amplicon_seq
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (!assayName.trim()) {
+      setError('Assay name is required')
+      return
+    }
+    const validationError = validateDnaSequence(cleanedSequence)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setSaving(true)
+    try {
+      onSaved(
+        await updateUserAssay(assay.assay_id, {
+          assayName: assayName.trim(),
+          ampliconSeq: cleanedSequence,
+          targetTaxid,
+          targetGene: targetGene.trim() || null,
+          ampliconName: ampliconName.trim() || null,
+        })
+      )
+    } catch (err: any) {
+      setError(err.message || 'Failed to update assay')
+      console.error('Error updating assay:', err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+              Edit Assay: {assay.assay_name}
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Assay ID: {assay.assay_id} | Reference amplicon version {assay.amplicon_version}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg shadow-sm transition-colors"
+          >
+            Close
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {loading ? (
+            <p className="text-gray-600 dark:text-gray-400">Loading reference amplicon...</p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label
+                  htmlFor="editAssayName"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  Assay Name <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  id="editAssayName"
+                  value={assayName}
+                  onChange={(e) => setAssayName(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="editTargetTaxid"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  Target TaxID (Optional)
+                </label>
+                <select
+                  id="editTargetTaxid"
+                  value={targetTaxid || ''}
+                  onChange={(e) => setTargetTaxid(e.target.value ? parseInt(e.target.value) : null)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Not assigned</option>
+                  {taxids.map((taxid) => (
+                    <option key={taxid.entry_id} value={taxid.entry_id}>
+                      {taxid.taxid_spec
+                        ? `${taxid.taxid} - ${taxid.taxid_spec}`
+                        : `TaxID: ${taxid.taxid}`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="editTargetGene"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  Target Gene (Optional)
+                </label>
+                <input
+                  type="text"
+                  id="editTargetGene"
+                  value={targetGene}
+                  onChange={(e) => setTargetGene(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="editAmpliconName"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  Amplicon Name (Optional)
+                </label>
+                <input
+                  type="text"
+                  id="editAmpliconName"
+                  value={ampliconName}
+                  onChange={(e) => setAmpliconName(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="editAmpliconSequence"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  Reference Amplicon Sequence <span className="text-red-500">*</span>
+                </label>
+                <textarea
+                  id="editAmpliconSequence"
+                  value={ampliconSequence}
+                  onChange={(e) => setAmpliconSequence(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+                  rows={6}
+                  required
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Valid characters: A, C, G, T and IUPAC codes (R, Y, S, W, K, M, B, D, H, V, N)
+                </p>
+              </div>
+
+              {sequenceChanged && (
+                <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+                  <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                    The sequence will be saved as amplicon version {versions[0].amplicon_version + 1}. Existing BLAST
+                    jobs keep referencing the version they were run against; new jobs use the new version.
+                  </p>
+                </div>
+              )}
+
+              {error && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                  <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg shadow-sm transition-colors"
+                >
+                  {saving ? 'Saving...' : 'Save Changes'}
+                </button>
+                <button
+                  type="button"
+                  onClick={onClose}
+                  disabled={saving}
+                  className="px-4 py-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          )}
+
+          {versions.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Amplicon Versions</h3>
+              <table className="w-full">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Version
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Name
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Length
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      BLAST Jobs
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Created At
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {versions.map((version) => (
+                    <tr key={version.amplicon_id}>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                        {version.amplicon_version}
+                        {version.amplicon_id === assay.assay_ref_amplicon && (
+                          <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300">
+                            Current
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                        {version.amplicon_name || <span className="italic">Unnamed</span>}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                        {version.amplicon_seq.length} bp
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                        {jobCounts.get(version.amplicon_id) || 0}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                        {formatDate(version.created_at)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface DuplicateAssayPanelProps {
+  assay: UserAssay
+  oligoCount: number
+  defaultName: string
+  onDuplicated: () => void
+  onClose: () => void
+}
+
+// Copies an assay with its reference amplicon and oligos under a new name, e.g. to design a variant
+function DuplicateAssayPanel({ assay, oligoCount, defaultName, onDuplicated, onClose }: DuplicateAssayPanelProps) {
+  const [assayName, setAssayName] = useState(defaultName)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (!assayName.trim()) {
+      setError('Assay name is required')
+      return
+    }
+
+    setSaving(true)
+    try {
+      await duplicateUserAssay(assay.assay_id, assayName.trim())
+      onDuplicated()
+    } catch (err: any) {
+      setError(err.message || 'Failed to duplicate assay')
+      console.error('Error duplicating assay:', err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Duplicate Assay
+          </h2>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg shadow-sm transition-colors"
+          >
+            Close
+          </button>
+        </div>
+
+        {/* Content */}
+        <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto p-6 space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Creates a copy of {assay.assay_name} with its target, the current reference amplicon (version{' '}
+            {assay.amplicon_version}) and {oligoCount} oligo{oligoCount === 1 ? '' : 's'}. BLAST jobs, schedules and
+            change history are not copied.
+          </p>
+
+          <div>
+            <label
+              htmlFor="duplicateAssayName"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              New Assay Name <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="text"
+              id="duplicateAssayName"
+              value={assayName}
+              onChange={(e) => setAssayName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              required
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Must be unique for your account
+            </p>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg shadow-sm transition-colors"
+            >
+              {saving ? 'Duplicating...' : 'Duplicate Assay'}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={saving}
+              className="px-4 py-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
     </div>
   )
 }
@@ -1,19 +1,138 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { supabase } from '@/lib/supabase'
+import { useState, useEffect, useRef, useCallback } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import {
+  deleteBlastParameterPreset,
+  fetchBlastAlignerJobs,
+  fetchBlastParameterPresets,
+  fetchBlastPlanningList,
+  fetchUserAssays,
+  fetchUserOligos,
+  fetchUserTaxids,
+  orderBlastAlignerJobsBatch,
+  reopenBlastPlannerEntry,
+  saveBlastParameterPreset,
+  setDefaultBlastParameterPreset,
+} from '@/lib/api'
+import { addDays, toDateString, todayString, validateDateRange } from '@/lib/dates'
+import { RUNTIME_CLASS_LABELS, estimateJob, getSequenceCountSource } from '@/lib/estimates'
+import type { JobEstimate } from '@/lib/estimates'
+import { DEFAULT_BLAST_PARAMETERS, getJobLifecycleStatus } from '@/lib/jobs'
+import type {
+  BatchOrderMode,
+  BatchOrderResult,
+  BlastAlignerJob,
+  BlastJobParameters,
+  BlastParameterPreset,
+  BlastPlanningEntry,
+  Oligo,
+  TaxID,
+  UserAssay,
+} from '@/lib/types'
 
 export const dynamic = 'force-dynamic'
 
-// Type definitions
-interface BlastPlanningEntry {
-  planner_entry_id: number
-  assay_id: number
-  assay_name: string
-  oligo_count: number
+// Form fields that can be pre-filled via the query string (see plannerPrefillQuery in lib/jobs)
+const PREFILL_KEYS = [
+  'dateFrom',
+  'dateTo',
+  'identity',
+  'coverage',
+  'matchScore',
+  'mismatchScore',
+  'openGap',
+  'extendGap',
+  'oligoMinCover',
+] as const
+
+type ParameterKey = keyof BlastJobParameters
+type ParameterValues = Record<ParameterKey, string>
+
+// BLAST parameter fields in form order
+const PARAMETER_FIELDS: Array<{ key: ParameterKey; label: string; step: string }> = [
+  { key: 'identity', label: 'Identity', step: '0.1' },
+  { key: 'coverage', label: 'Coverage', step: '0.1' },
+  { key: 'matchScore', label: 'Match Score', step: '0.1' },
+  { key: 'mismatchScore', label: 'Mismatch Score', step: '0.1' },
+  { key: 'openGap', label: 'Open Gap', step: '0.1' },
+  { key: 'extendGap', label: 'Extend Gap', step: '0.1' },
+  { key: 'oligoMinCover', label: 'Oligo Min Cover', step: '1' },
+]
+
+// Validate parameter values as entered in the form; returns the first error or null
+function validateParameterValues(values: ParameterValues): string | null {
+  for (const field of PARAMETER_FIELDS) {
+    const num = parseFloat(values[field.key])
+    if (isNaN(num)) {
+      return `${field.label} must be a valid number`
+    }
+  }
+
+  // Validate oligo_min_cover is an integer >= 1
+  const oligoMinCoverNum = parseInt(values.oligoMinCover)
+  if (isNaN(oligoMinCoverNum) || oligoMinCoverNum < 1) {
+    return 'Oligo Min Cover must be an integer greater than or equal to 1'
+  }
+
+  return null
+}
+
+function toParameters(values: ParameterValues): BlastJobParameters {
+  return {
+    identity: parseFloat(values.identity),
+    coverage: parseFloat(values.coverage),
+    matchScore: parseFloat(values.matchScore),
+    mismatchScore: parseFloat(values.mismatchScore),
+    openGap: parseFloat(values.openGap),
+    extendGap: parseFloat(values.extendGap),
+    oligoMinCover: parseInt(values.oligoMinCover),
+  }
+}
+
+// Why an assay is missing from the planning list, with a link to where it can be fixed
+interface IneligibleReason {
+  message: string
+  href: string
+  linkLabel: string
+}
+
+function getIneligibleReasons(assay: UserAssay, oligoCount: number, lastJob: BlastAlignerJob | undefined): IneligibleReason[] {
+  const reasons: IneligibleReason[] = []
+  if (assay.target_taxid === null) {
+    reasons.push({
+      message: 'No target taxid',
+      href: `/assay-repository?assay=${assay.assay_id}`,
+      linkLabel: 'Open in assay repository',
+    })
+  }
+  if (!assay.assay_ref_amplicon) {
+    reasons.push({
+      message: 'No reference amplicon',
+      href: `/assay-repository?assay=${assay.assay_id}`,
+      linkLabel: 'Open in assay repository',
+    })
+  }
+  if (oligoCount === 0) {
+    reasons.push({
+      message: 'No oligos assigned',
+      href: `/oligo-repository?assay=${assay.assay_id}`,
+      linkLabel: 'Add oligo',
+    })
+  }
+  if (reasons.length === 0 && lastJob) {
+    reasons.push({
+      message: 'Already in a BLAST aligner job',
+      href: `/blast-results?job=${lastJob.align_id}`,
+      linkLabel: `View job ${lastJob.align_id}`,
+    })
+  }
+  return reasons
 }
 
 export default function BlastPlannerPage() {
+  const searchParams = useSearchParams()
   const [entries, setEntries] = useState<BlastPlanningEntry[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -23,37 +142,55 @@ export default function BlastPlannerPage() {
   // Form state for BLAST parameters
   const [dateFrom, setDateFrom] = useState('')
   const [dateTo, setDateTo] = useState('')
-  const [identity, setIdentity] = useState<string>('95.0')
-  const [coverage, setCoverage] = useState<string>('80.0')
-  const [matchScore, setMatchScore] = useState<string>('2.0')
-  const [mismatchScore, setMismatchScore] = useState<string>('-1.0')
-  const [openGap, setOpenGap] = useState<string>('-0.5')
-  const [extendGap, setExtendGap] = useState<string>('-0.1')
-  const [oligoMinCover, setOligoMinCover] = useState<string>('1')
+  const [previousJobs, setPreviousJobs] = useState<BlastAlignerJob[]>([])
+
+  // All assays and oligos, used to explain why assays are not in the planning list;
+  // assays and taxids also resolve the target taxid for size estimates
+  const [assays, setAssays] = useState<UserAssay[]>([])
+  const [oligos, setOligos] = useState<Oligo[]>([])
+  const [taxids, setTaxids] = useState<TaxID[]>([])
+
+  const [identity, setIdentity] = useState<string>(DEFAULT_BLAST_PARAMETERS.identity.toFixed(1))
+  const [coverage, setCoverage] = useState<string>(DEFAULT_BLAST_PARAMETERS.coverage.toFixed(1))
+  const [matchScore, setMatchScore] = useState<string>(DEFAULT_BLAST_PARAMETERS.matchScore.toFixed(1))
+  const [mismatchScore, setMismatchScore] = useState<string>(DEFAULT_BLAST_PARAMETERS.mismatchScore.toFixed(1))
+  const [openGap, setOpenGap] = useState<string>(DEFAULT_BLAST_PARAMETERS.openGap.toFixed(1))
+  const [extendGap, setExtendGap] = useState<string>(DEFAULT_BLAST_PARAMETERS.extendGap.toFixed(1))
+  const [oligoMinCover, setOligoMinCover] = useState<string>(String(DEFAULT_BLAST_PARAMETERS.oligoMinCover))
+
+  // Batch ordering mode and the per-entry outcome of the last submit
+  const [orderMode, setOrderMode] = useState<BatchOrderMode>('best_effort')
+  const [orderResults, setOrderResults] = useState<Array<{ assayName: string; result: BatchOrderResult }> | null>(null)
+
+  // Pre-flight size estimates, keyed by planner_entry_id
+  const [estimates, setEstimates] = useState<Map<number, JobEstimate>>(new Map())
+  const [estimating, setEstimating] = useState(false)
+
+  // Per-assay overrides of the parameters above, keyed by planner_entry_id
+  const [overrides, setOverrides] = useState<Map<number, Partial<ParameterValues>>>(new Map())
+
+  // Re-order of an earlier job: the assay to preselect once the list is loaded, and the assay
+  // that is no longer on the planning list and can be added back on request
+  const [notice, setNotice] = useState<string | null>(null)
+  const prefillAssayRef = useRef<number | null>(null)
+  const prefilledRef = useRef(false)
+  const [reopenAssayId, setReopenAssayId] = useState<number | null>(null)
+  const [reopening, setReopening] = useState(false)
+
+  // Parameter presets
+  const [presets, setPresets] = useState<BlastParameterPreset[]>([])
+  const [selectedPresetId, setSelectedPresetId] = useState<number | null>(null)
+  const [presetName, setPresetName] = useState('')
+  const [presetShared, setPresetShared] = useState(false)
+  const [presetBusy, setPresetBusy] = useState(false)
 
   // Fetch planning list
   const fetchPlanningList = async () => {
     try {
       setError(null)
       setLoading(true)
-      const { data, error: fetchError } = await supabase.rpc('fetch_blast_planning_list')
-
-      if (fetchError) {
-        throw fetchError
-      }
-
-      if (data && Array.isArray(data)) {
-        const mappedData = data.map((item: any) => ({
-          planner_entry_id: Number(item.planner_entry_id),
-          assay_id: Number(item.assay_id),
-          assay_name: item.assay_name,
-          oligo_count: Number(item.oligo_count),
-        }))
-        setEntries(mappedData)
-        setSelectedEntries(new Set()) // Clear selections when list refreshes
-      } else {
-        setEntries([])
-      }
+      setEntries(await fetchBlastPlanningList())
+      setSelectedEntries(new Set()) // Clear selections when list refreshes
     } catch (err: any) {
       setError(err.message || 'Failed to fetch planning list')
       console.error('Error fetching planning list:', err)
@@ -62,10 +199,137 @@ export default function BlastPlannerPage() {
     }
   }
 
+  // Fill the parameter fields of the form
+  const applyParameters = useCallback((parameters: BlastJobParameters) => {
+    setIdentity(String(parameters.identity))
+    setCoverage(String(parameters.coverage))
+    setMatchScore(String(parameters.matchScore))
+    setMismatchScore(String(parameters.mismatchScore))
+    setOpenGap(String(parameters.openGap))
+    setExtendGap(String(parameters.extendGap))
+    setOligoMinCover(String(parameters.oligoMinCover))
+  }, [])
+
+  // Fetch presets, optionally applying the user's default preset. The parameters of a
+  // re-ordered job take precedence over the default.
+  const fetchPresets = useCallback(async (applyDefault = false) => {
+    try {
+      const data = await fetchBlastParameterPresets()
+      setPresets(data)
+      const defaultPreset = data.find((p) => p.is_default)
+      if (applyDefault && defaultPreset && !prefilledRef.current) {
+        applyParameters(defaultPreset.parameters)
+        setSelectedPresetId(defaultPreset.preset_id)
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to fetch parameter presets')
+      console.error('Error fetching parameter presets:', err)
+    }
+  }, [applyParameters])
+
+  // Previous jobs are only needed for the "since last job" date preset
+  const fetchPreviousJobs = async () => {
+    try {
+      setPreviousJobs(await fetchBlastAlignerJobs())
+    } catch (err) {
+      console.error('Error fetching previous jobs:', err)
+    }
+  }
+
+  const fetchAssaysAndOligos = async () => {
+    try {
+      const [assayData, oligoData] = await Promise.all([fetchUserAssays(), fetchUserOligos()])
+      setAssays(assayData)
+      setOligos(oligoData)
+    } catch (err) {
+      console.error('Error fetching assays and oligos:', err)
+      // The ineligible assays section is optional, so we continue even if this fails
+    }
+  }
+
+  const fetchTaxids = async () => {
+    try {
+      setTaxids(await fetchUserTaxids())
+    } catch (err) {
+      console.error('Error fetching taxids:', err)
+      // Estimates are optional, so we continue even if this fails
+    }
+  }
+
   useEffect(() => {
     fetchPlanningList()
+    fetchPreviousJobs()
+    fetchAssaysAndOligos()
+    fetchTaxids()
   }, [])
 
+  useEffect(() => {
+    fetchPresets(true)
+  }, [fetchPresets])
+
+  // Pre-fill the form from the query string (used by "re-order with same parameters")
+  useEffect(() => {
+    if (!searchParams) return
+    const setters: Record<(typeof PREFILL_KEYS)[number], (value: string) => void> = {
+      dateFrom: setDateFrom,
+      dateTo: setDateTo,
+      identity: setIdentity,
+      coverage: setCoverage,
+      matchScore: setMatchScore,
+      mismatchScore: setMismatchScore,
+      openGap: setOpenGap,
+      extendGap: setExtendGap,
+      oligoMinCover: setOligoMinCover,
+    }
+    PREFILL_KEYS.forEach((key) => {
+      const value = searchParams.get(key)
+      if (value !== null) {
+        setters[key](value)
+        prefilledRef.current = true
+      }
+    })
+    const assay = searchParams.get('assay')
+    prefillAssayRef.current = assay ? parseInt(assay) : null
+  }, [searchParams])
+
+  // Preselect the planning entry of the re-ordered assay once the list has loaded. Ordering the
+  // previous job removed the assay from the planning list; it is only added back when the user
+  // asks for it, so reloading or sharing the link does not change the list.
+  useEffect(() => {
+    const assayId = prefillAssayRef.current
+    if (loading || assayId === null) return
+    prefillAssayRef.current = null
+
+    const existing = entries.find((e) => e.assay_id === assayId)
+    if (existing) {
+      setSelectedEntries(new Set([existing.planner_entry_id]))
+      setNotice(`Parameters of the previous job for ${existing.assay_name} have been filled in. Review them and click Run BLAST-Align.`)
+    } else {
+      setReopenAssayId(assayId)
+    }
+  }, [loading, entries])
+
+  // Put the assay of the re-ordered job back on the planning list and select it
+  const handleReopenEntry = async () => {
+    if (reopenAssayId === null) return
+    setReopening(true)
+    setError(null)
+    try {
+      const entry = await reopenBlastPlannerEntry(reopenAssayId)
+      setEntries((prev) =>
+        prev.some((e) => e.planner_entry_id === entry.planner_entry_id) ? prev : [...prev, entry]
+      )
+      setSelectedEntries(new Set([entry.planner_entry_id]))
+      setReopenAssayId(null)
+      setNotice(`${entry.assay_name} has been added back to the planning list. Review the parameters and click Run BLAST-Align.`)
+    } catch (err: any) {
+      setError(err.message || 'Failed to add the assay back to the planning list')
+      console.error('Error re-opening planner entry:', err)
+    } finally {
+      setReopening(false)
+    }
+  }
+
   // Handle checkbox toggle for individual entry
   const handleEntryToggle = (plannerEntryId: number) => {
     const newSelected = new Set(selectedEntries)
@@ -86,6 +350,167 @@ export default function BlastPlannerPage() {
     }
   }
 
+  // Shared parameter values; they act as defaults for every selected assay
+  const sharedValues: ParameterValues = {
+    identity,
+    coverage,
+    matchScore,
+    mismatchScore,
+    openGap,
+    extendGap,
+    oligoMinCover,
+  }
+
+  // Shared values with the overrides of one planning entry applied
+  const getEntryValues = (plannerEntryId: number): ParameterValues => ({
+    ...sharedValues,
+    ...overrides.get(plannerEntryId),
+  })
+
+  // An empty cell removes the override so the shared value applies again
+  const handleOverrideChange = (plannerEntryId: number, key: ParameterKey, value: string) => {
+    setOverrides((prev) => {
+      const newMap = new Map(prev)
+      const entryOverrides = { ...newMap.get(plannerEntryId) }
+      if (value.trim() === '') {
+        delete entryOverrides[key]
+      } else {
+        entryOverrides[key] = value
+      }
+      if (Object.keys(entryOverrides).length === 0) {
+        newMap.delete(plannerEntryId)
+      } else {
+        newMap.set(plannerEntryId, entryOverrides)
+      }
+      return newMap
+    })
+  }
+
+  const handleResetOverrides = (plannerEntryId: number) => {
+    setOverrides((prev) => {
+      const newMap = new Map(prev)
+      newMap.delete(plannerEntryId)
+      return newMap
+    })
+  }
+
+  // End of the latest job per assay (failed jobs do not count)
+  const lastJobDateByAssay = new Map<number, string>()
+  previousJobs.forEach((job) => {
+    if (getJobLifecycleStatus(job) === 'failed') return
+    const current = lastJobDateByAssay.get(job.alignjob_assay_id)
+    if (!current || job.alignjob_date_to > current) {
+      lastJobDateByAssay.set(job.alignjob_assay_id, job.alignjob_date_to)
+    }
+  })
+
+  // Assays of the user that are not in the planning list, with the reasons
+  const eligibleAssayIds = new Set(entries.map((e) => e.assay_id))
+  const ineligibleAssays = assays
+    .filter((assay) => !eligibleAssayIds.has(assay.assay_id))
+    .map((assay) => {
+      const oligoCount = oligos.filter((o) => o.assay_id === assay.assay_id).length
+      const lastJob = previousJobs
+        .filter((job) => job.alignjob_assay_id === assay.assay_id)
+        .reduce<BlastAlignerJob | undefined>((latest, job) => (!latest || job.align_id > latest.align_id ? job : latest), undefined)
+      return { assay, reasons: getIneligibleReasons(assay, oligoCount, lastJob) }
+    })
+
+  // "Since last job" starts the day after the earliest last job of the selected assays,
+  // so no selected assay ends up with a gap
+  const selectedLastJobDates = entries
+    .filter((e) => selectedEntries.has(e.planner_entry_id))
+    .map((e) => lastJobDateByAssay.get(e.assay_id))
+    .filter((date): date is string => date !== undefined)
+  const sinceLastJobFrom =
+    selectedLastJobDates.length > 0 ? addDays(selectedLastJobDates.reduce((a, b) => (a < b ? a : b)), 1) : null
+
+  // Quick date ranges, all ending today except the previous calendar year
+  const applyDatePreset = (preset: 'last30' | 'last90' | 'last365' | 'thisYear' | 'lastYear' | 'sinceLastJob') => {
+    const today = todayString()
+    const year = new Date().getFullYear()
+    switch (preset) {
+      case 'last30':
+      case 'last90':
+      case 'last365': {
+        const days = { last30: 30, last90: 90, last365: 365 }[preset]
+        // Both dates are inclusive, so "Last 30 days" starts 29 days before today
+        setDateFrom(addDays(today, -(days - 1)))
+        setDateTo(today)
+        break
+      }
+      case 'thisYear':
+        setDateFrom(toDateString(new Date(year, 0, 1)))
+        setDateTo(today)
+        break
+      case 'lastYear':
+        setDateFrom(toDateString(new Date(year - 1, 0, 1)))
+        setDateTo(toDateString(new Date(year - 1, 11, 31)))
+        break
+      case 'sinceLastJob':
+        if (sinceLastJobFrom) {
+          // A job that ended today leaves nothing new; fall back to today only
+          setDateFrom(sinceLastJobFrom > today ? today : sinceLastJobFrom)
+          setDateTo(today)
+        }
+        break
+    }
+  }
+
+  // Shown inline as soon as both dates are entered
+  const dateRangeError = dateFrom && dateTo ? validateDateRange(dateFrom, dateTo) : null
+
+  // Estimate sequence count and runtime for the selected entries and the current date range
+  const handleEstimate = async () => {
+    if (!dateFrom || !dateTo) {
+      setError('Enter a date range to estimate the job size')
+      return
+    }
+    if (dateRangeError) {
+      setError(dateRangeError)
+      return
+    }
+    if (selectedEntries.size === 0) {
+      setError('Please select at least one assay')
+      return
+    }
+
+    setError(null)
+    setEstimating(true)
+    try {
+      // Resolve the target taxid of each assay (assays reference taxid_surveillance entries)
+      const taxidByEntry = new Map(taxids.map((t) => [t.entry_id, t.taxid]))
+      const source = getSequenceCountSource()
+
+      // Sequential to stay within the NCBI request rate limit
+      const newEstimates = new Map(estimates)
+      for (const entry of entries.filter((e) => selectedEntries.has(e.planner_entry_id))) {
+        const assay = assays.find((a) => a.assay_id === entry.assay_id)
+        const taxid = assay?.target_taxid != null ? taxidByEntry.get(assay.target_taxid) ?? null : null
+        newEstimates.set(
+          entry.planner_entry_id,
+          await estimateJob(source, taxid, entry.oligo_count, dateFrom, dateTo)
+        )
+        setEstimates(new Map(newEstimates))
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to estimate job size')
+      console.error('Error estimating job size:', err)
+    } finally {
+      setEstimating(false)
+    }
+  }
+
+  // Estimates are only shown while the date range they were made for is still selected
+  const getCurrentEstimate = (plannerEntryId: number): JobEstimate | null => {
+    const estimate = estimates.get(plannerEntryId)
+    return estimate && estimate.dateFrom === dateFrom && estimate.dateTo === dateTo ? estimate : null
+  }
+
+  const estimatedTotal = entries
+    .filter((e) => selectedEntries.has(e.planner_entry_id))
+    .reduce((sum, e) => sum + (getCurrentEstimate(e.planner_entry_id)?.sequenceCount ?? 0), 0)
+
   // Validate form
   const validateForm = (): string | null => {
     if (!dateFrom.trim()) {
@@ -94,35 +519,107 @@ export default function BlastPlannerPage() {
     if (!dateTo.trim()) {
       return 'Date To is required'
     }
+    const dateError = validateDateRange(dateFrom.trim(), dateTo.trim())
+    if (dateError) {
+      return dateError
+    }
     if (selectedEntries.size === 0) {
       return 'Please select at least one assay'
     }
 
-    // Validate numeric fields
-    const numFields = [
-      { name: 'Identity', value: identity },
-      { name: 'Coverage', value: coverage },
-      { name: 'Match Score', value: matchScore },
-      { name: 'Mismatch Score', value: mismatchScore },
-      { name: 'Open Gap', value: openGap },
-      { name: 'Extend Gap', value: extendGap },
-      { name: 'Oligo Min Cover', value: oligoMinCover },
-    ]
-
-    for (const field of numFields) {
-      const num = parseFloat(field.value)
-      if (isNaN(num)) {
-        return `${field.name} must be a valid number`
+    const sharedError = validateParameterValues(sharedValues)
+    if (sharedError) {
+      return sharedError
+    }
+    for (const plannerEntryId of Array.from(selectedEntries)) {
+      if (!overrides.has(plannerEntryId)) continue
+      const entryError = validateParameterValues(getEntryValues(plannerEntryId))
+      if (entryError) {
+        const entry = entries.find((e) => e.planner_entry_id === plannerEntryId)
+        return `${entry?.assay_name || plannerEntryId}: ${entryError}`
       }
     }
+    return null
+  }
 
-    // Validate oligo_min_cover is an integer >= 1
-    const oligoMinCoverNum = parseInt(oligoMinCover)
-    if (isNaN(oligoMinCoverNum) || oligoMinCoverNum < 1) {
-      return 'Oligo Min Cover must be an integer greater than or equal to 1'
+  const selectedPreset = presets.find((p) => p.preset_id === selectedPresetId) || null
+
+  // Selecting a preset loads its parameters into the form
+  const handlePresetSelect = (presetId: number | null) => {
+    setSelectedPresetId(presetId)
+    const preset = presets.find((p) => p.preset_id === presetId)
+    if (preset) {
+      applyParameters(preset.parameters)
+      if (preset.is_own) {
+        setPresetName(preset.preset_name)
+        setPresetShared(preset.is_shared)
+      }
     }
+  }
 
-    return null
+  // Save the current parameters as a preset (overwrites an own preset with the same name)
+  const handleSavePreset = async () => {
+    if (!presetName.trim()) {
+      setError('Preset name is required')
+      return
+    }
+    const validationError = validateParameterValues(sharedValues)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setError(null)
+    setPresetBusy(true)
+    try {
+      const saved = await saveBlastParameterPreset({
+        presetName: presetName.trim(),
+        parameters: toParameters(sharedValues),
+        isShared: presetShared,
+      })
+      await fetchPresets()
+      setSelectedPresetId(saved.preset_id)
+      setNotice(`Preset "${saved.preset_name}" saved.`)
+    } catch (err: any) {
+      setError(err.message || 'Failed to save preset')
+      console.error('Error saving preset:', err)
+    } finally {
+      setPresetBusy(false)
+    }
+  }
+
+  const handleToggleDefaultPreset = async () => {
+    if (!selectedPreset) return
+    setError(null)
+    setPresetBusy(true)
+    try {
+      await setDefaultBlastParameterPreset(selectedPreset.is_default ? null : selectedPreset.preset_id)
+      await fetchPresets()
+    } catch (err: any) {
+      setError(err.message || 'Failed to set default preset')
+      console.error('Error setting default preset:', err)
+    } finally {
+      setPresetBusy(false)
+    }
+  }
+
+  const handleDeletePreset = async () => {
+    if (!selectedPreset || !selectedPreset.is_own) return
+    if (!confirm(`Are you sure you want to delete the preset "${selectedPreset.preset_name}"?`)) {
+      return
+    }
+    setError(null)
+    setPresetBusy(true)
+    try {
+      await deleteBlastParameterPreset(selectedPreset.preset_id)
+      setSelectedPresetId(null)
+      await fetchPresets()
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete preset')
+      console.error('Error deleting preset:', err)
+    } finally {
+      setPresetBusy(false)
+    }
   }
 
   // Handle submit - order jobs for all selected entries
@@ -138,54 +635,45 @@ export default function BlastPlannerPage() {
     }
 
     setError(null)
+    setOrderResults(null)
     setSubmitting(true)
 
     try {
+      // One batch call; each entry uses its own (possibly overridden) parameters
       const selectedEntryIds = Array.from(selectedEntries)
-      const results: Array<{ entryId: number; success: boolean; error?: string }> = []
-
-      // Process each selected entry
-      for (const plannerEntryId of selectedEntryIds) {
-        try {
-          const { data, error: orderError } = await supabase.rpc('order_blast_aligner_job', {
-            p_planner_entry_id: plannerEntryId,
-            p_date_from: dateFrom.trim(),
-            p_date_to: dateTo.trim(),
-            p_identity: parseFloat(identity),
-            p_coverage: parseFloat(coverage),
-            p_match_score: parseFloat(matchScore),
-            p_mismatch_score: parseFloat(mismatchScore),
-            p_opengap: parseFloat(openGap),
-            p_extendgap: parseFloat(extendGap),
-            p_oligo_min_cover: parseInt(oligoMinCover),
-          })
-
-          if (orderError) {
-            results.push({ entryId: plannerEntryId, success: false, error: orderError.message })
-          } else {
-            results.push({ entryId: plannerEntryId, success: true })
-          }
-        } catch (err: any) {
-          results.push({
-            entryId: plannerEntryId,
-            success: false,
-            error: err.message || 'Failed to order job',
-          })
-        }
-      }
+      const results = await orderBlastAlignerJobsBatch(
+        selectedEntryIds.map((plannerEntryId) => ({
+          plannerEntryId,
+          dateFrom: dateFrom.trim(),
+          dateTo: dateTo.trim(),
+          ...toParameters(getEntryValues(plannerEntryId)),
+        })),
+        orderMode
+      )
 
-      // Check if all succeeded
-      const failures = results.filter((r) => !r.success)
-      if (failures.length > 0) {
-        const errorMessages = failures.map((f) => {
-          const entry = entries.find((e) => e.planner_entry_id === f.entryId)
-          return `${entry?.assay_name || f.entryId}: ${f.error}`
+      // Keep the assay names, ordered entries disappear from the list on refresh
+      setOrderResults(
+        results.map((result) => ({
+          assayName:
+            entries.find((e) => e.planner_entry_id === result.planner_entry_id)?.assay_name ||
+            `Entry ${result.planner_entry_id}`,
+          result,
+        }))
+      )
+
+      // Overrides of ordered entries must not carry over to a later order
+      const orderedEntryIds = results.filter((r) => r.success).map((r) => r.planner_entry_id)
+      if (orderedEntryIds.length > 0) {
+        setOverrides((prev) => {
+          const next = new Map(prev)
+          orderedEntryIds.forEach((plannerEntryId) => next.delete(plannerEntryId))
+          return next
         })
-        setError(`Some jobs failed:\n${errorMessages.join('\n')}`)
       }
 
       // Refresh the list (this will remove successfully processed entries)
       await fetchPlanningList()
+      fetchPreviousJobs()
     } catch (err: any) {
       setError(err.message || 'Failed to submit jobs')
       console.error('Error submitting jobs:', err)
@@ -211,11 +699,132 @@ export default function BlastPlannerPage() {
         </div>
       )}
 
+      {notice && (
+        <div className="mb-6 p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg flex justify-between items-center">
+          <p className="text-blue-800 dark:text-blue-200">{notice}</p>
+          <button
+            onClick={() => setNotice(null)}
+            className="text-sm text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {reopenAssayId !== null && (
+        <div className="mb-6 p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg flex justify-between items-center gap-4">
+          <p className="text-blue-800 dark:text-blue-200">
+            Parameters of the previous job for{' '}
+            {assays.find((a) => a.assay_id === reopenAssayId)?.assay_name || `assay ${reopenAssayId}`} have been
+            filled in. The assay is no longer on the planning list.
+          </p>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleReopenEntry}
+              disabled={reopening}
+              className="px-3 py-2 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-lg shadow-sm transition-colors whitespace-nowrap"
+            >
+              {reopening ? 'Adding...' : 'Add assay back to planning list'}
+            </button>
+            <button
+              onClick={() => setReopenAssayId(null)}
+              className="text-sm text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Setup Section */}
       <div className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow p-6">
         <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
           Job Parameters
         </h2>
+
+        {/* Parameter Presets */}
+        <div className="mb-4 pb-4 border-b border-gray-200 dark:border-gray-700 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label
+              htmlFor="preset"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Preset
+            </label>
+            <div className="flex gap-2">
+              <select
+                id="preset"
+                value={selectedPresetId ?? ''}
+                onChange={(e) => handlePresetSelect(e.target.value ? parseInt(e.target.value) : null)}
+                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">{presets.length === 0 ? 'No presets saved' : 'Select a preset...'}</option>
+                {presets.map((preset) => (
+                  <option key={preset.preset_id} value={preset.preset_id}>
+                    {preset.preset_name}
+                    {preset.is_default ? ' (default)' : ''}
+                    {!preset.is_own
+                      ? ` (shared by ${preset.owner_name || 'a colleague'})`
+                      : preset.is_shared
+                        ? ' (shared)'
+                        : ''}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={handleToggleDefaultPreset}
+                disabled={!selectedPreset || presetBusy}
+                className="px-3 py-2 text-sm bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-lg shadow-sm transition-colors whitespace-nowrap"
+              >
+                {selectedPreset?.is_default ? 'Unset Default' : 'Set Default'}
+              </button>
+              <button
+                type="button"
+                onClick={handleDeletePreset}
+                disabled={!selectedPreset || !selectedPreset.is_own || presetBusy}
+                className="px-3 py-2 text-sm bg-red-600 hover:bg-red-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-lg shadow-sm transition-colors"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+          <div>
+            <label
+              htmlFor="presetName"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Save Current Parameters As
+            </label>
+            <div className="flex gap-2 items-center">
+              <input
+                type="text"
+                id="presetName"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                placeholder="e.g. strict"
+                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <label className="flex items-center cursor-pointer whitespace-nowrap" title="Visible to all users of your institution">
+                <input
+                  type="checkbox"
+                  checked={presetShared}
+                  onChange={(e) => setPresetShared(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 dark:focus:ring-blue-600 dark:ring-offset-gray-800 focus:ring-2 dark:bg-gray-700 dark:border-gray-600"
+                />
+                <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">Share</span>
+              </label>
+              <button
+                type="button"
+                onClick={handleSavePreset}
+                disabled={presetBusy}
+                className="px-3 py-2 text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-lg shadow-sm transition-colors"
+              >
+                {presetBusy ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
         <form onSubmit={handleSubmit} className="space-y-4">
           {/* Date Range */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -230,6 +839,7 @@ export default function BlastPlannerPage() {
                 type="date"
                 id="dateFrom"
                 value={dateFrom}
+                max={dateTo || todayString()}
                 onChange={(e) => setDateFrom(e.target.value)}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 required
@@ -246,6 +856,8 @@ export default function BlastPlannerPage() {
                 type="date"
                 id="dateTo"
                 value={dateTo}
+                min={dateFrom || undefined}
+                max={todayString()}
                 onChange={(e) => setDateTo(e.target.value)}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 required
@@ -253,6 +865,49 @@ export default function BlastPlannerPage() {
             </div>
           </div>
 
+          {/* Date Range Presets */}
+          <div>
+            <div className="flex flex-wrap gap-2">
+              {[
+                { key: 'last30' as const, label: 'Last 30 days' },
+                { key: 'last90' as const, label: 'Last 90 days' },
+                { key: 'last365' as const, label: 'Last 365 days' },
+                { key: 'thisYear' as const, label: 'This year' },
+                { key: 'lastYear' as const, label: 'Last year' },
+              ].map((preset) => (
+                <button
+                  key={preset.key}
+                  type="button"
+                  onClick={() => applyDatePreset(preset.key)}
+                  className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-lg transition-colors"
+                >
+                  {preset.label}
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={() => applyDatePreset('sinceLastJob')}
+                disabled={!sinceLastJobFrom}
+                title={
+                  sinceLastJobFrom
+                    ? undefined
+                    : 'Select assays that already have a BLAST job to use this preset'
+                }
+                className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-gray-800 dark:text-gray-200 rounded-lg transition-colors"
+              >
+                Since last job
+              </button>
+            </div>
+            {sinceLastJobFrom && selectedLastJobDates.length < selectedEntries.size && (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Some selected assays have no previous job; &quot;Since last job&quot; uses the assays that do.
+              </p>
+            )}
+            {dateRangeError && (
+              <p className="mt-1 text-xs text-red-600 dark:text-red-400">{dateRangeError}</p>
+            )}
+          </div>
+
           {/* BLAST Parameters */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
@@ -397,6 +1052,39 @@ export default function BlastPlannerPage() {
 
           {/* Submit button in form (for keyboard accessibility, main button is in list section) */}
           <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+            <fieldset className="mb-4">
+              <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                When some assays cannot be ordered
+              </legend>
+              <div className="flex flex-col gap-2">
+                {[
+                  {
+                    mode: 'best_effort' as const,
+                    label: 'Best effort',
+                    description: 'Order all other assays anyway',
+                  },
+                  {
+                    mode: 'all_or_nothing' as const,
+                    label: 'All or nothing',
+                    description: 'Order no job at all',
+                  },
+                ].map((option) => (
+                  <label key={option.mode} className="flex items-center cursor-pointer">
+                    <input
+                      type="radio"
+                      name="orderMode"
+                      value={option.mode}
+                      checked={orderMode === option.mode}
+                      onChange={() => setOrderMode(option.mode)}
+                      className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 focus:ring-blue-500 dark:focus:ring-blue-600 dark:ring-offset-gray-800 focus:ring-2 dark:bg-gray-700 dark:border-gray-600"
+                    />
+                    <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+                      <span className="font-medium">{option.label}</span> - {option.description}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
             <button
               type="submit"
               disabled={submitting || selectedEntries.size === 0}
@@ -411,6 +1099,81 @@ export default function BlastPlannerPage() {
         </form>
       </div>
 
+      {/* Order Results Section */}
+      {orderResults && (
+        <div className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow">
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+                Order Results
+              </h2>
+              <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                {orderResults.filter((r) => r.result.success).length} of {orderResults.length} job(s) ordered
+              </p>
+            </div>
+            <button
+              onClick={() => setOrderResults(null)}
+              className="text-sm text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white"
+            >
+              Dismiss
+            </button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Assay Name
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Result
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Details
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {orderResults.map(({ assayName, result }) => (
+                  <tr key={result.planner_entry_id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                      {assayName}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          result.success
+                            ? 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300'
+                            : result.rolled_back
+                              ? 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-300'
+                              : 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300'
+                        }`}
+                      >
+                        {result.success ? 'Ordered' : result.rolled_back ? 'Not ordered' : 'Failed'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">
+                      {result.success && result.align_id !== null ? (
+                        <Link
+                          href={`/blast-results?job=${result.align_id}`}
+                          className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                        >
+                          Job {result.align_id}
+                        </Link>
+                      ) : result.rolled_back ? (
+                        'Rolled back because another assay failed'
+                      ) : (
+                        <span className="text-red-600 dark:text-red-400">{result.error || 'Unknown error'}</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Assay List Section */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
         <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
@@ -430,6 +1193,20 @@ export default function BlastPlannerPage() {
                   Select All
                 </span>
               </label>
+              {estimatedTotal > 0 && (
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  ~{estimatedTotal.toLocaleString()} sequences in total
+                </span>
+              )}
+              <button
+                type="button"
+                onClick={handleEstimate}
+                disabled={estimating || selectedEntries.size === 0}
+                className="px-4 py-2 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-lg shadow-sm transition-colors"
+                title={`Sequence count source: ${getSequenceCountSource().name}`}
+              >
+                {estimating ? 'Estimating...' : 'Estimate Size'}
+              </button>
               <button
                 onClick={(e) => handleSubmit(e)}
                 disabled={submitting || selectedEntries.size === 0}
@@ -476,6 +1253,12 @@ export default function BlastPlannerPage() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                     Oligo Count
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Sequences in Range
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Expected Runtime
+                  </th>
                 </tr>
               </thead>
               <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
@@ -502,6 +1285,10 @@ export default function BlastPlannerPage() {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
                       {entry.oligo_count}
                     </td>
+                    <EstimateCells
+                      estimate={getCurrentEstimate(entry.planner_entry_id)}
+                      selected={selectedEntries.has(entry.planner_entry_id)}
+                    />
                   </tr>
                 ))}
               </tbody>
@@ -509,7 +1296,175 @@ export default function BlastPlannerPage() {
           </div>
         )}
       </div>
+
+      {/* Ineligible Assays Section */}
+      {!loading && ineligibleAssays.length > 0 && (
+        <div className="mt-6 bg-white dark:bg-gray-800 rounded-lg shadow">
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+              Ineligible Assays
+            </h2>
+            <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+              These assays cannot be planned until the listed requirements are met.
+            </p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Assay Name
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Missing Requirement
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Fix
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {ineligibleAssays.map(({ assay, reasons }) =>
+                  reasons.length === 0 ? (
+                    <tr key={assay.assay_id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                        {assay.assay_name}
+                      </td>
+                      <td colSpan={2} className="px-6 py-4 text-sm text-gray-400 dark:text-gray-500 italic">
+                        Not in the planning list
+                      </td>
+                    </tr>
+                  ) : (
+                    reasons.map((reason, index) => (
+                      <tr key={`${assay.assay_id}-${reason.message}`}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                          {index === 0 ? assay.assay_name : ''}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {reason.message}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          <Link
+                            href={reason.href}
+                            className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                          >
+                            {reason.linkLabel}
+                          </Link>
+                        </td>
+                      </tr>
+                    ))
+                  )
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Per-Assay Parameters Section */}
+      {selectedEntries.size > 0 && (
+        <div className="mt-6 bg-white dark:bg-gray-800 rounded-lg shadow">
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+              Per-Assay Parameters
+            </h2>
+            <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+              Override the job parameters for individual selected assays. Empty cells use the value from Job Parameters.
+            </p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Assay Name
+                  </th>
+                  {PARAMETER_FIELDS.map((field) => (
+                    <th
+                      key={field.key}
+                      className="px-2 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                    >
+                      {field.label}
+                    </th>
+                  ))}
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {entries
+                  .filter((entry) => selectedEntries.has(entry.planner_entry_id))
+                  .map((entry) => {
+                    const entryOverrides = overrides.get(entry.planner_entry_id) || {}
+                    return (
+                      <tr key={entry.planner_entry_id}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                          {entry.assay_name}
+                        </td>
+                        {PARAMETER_FIELDS.map((field) => {
+                          const isOverridden = entryOverrides[field.key] !== undefined
+                          return (
+                            <td key={field.key} className="px-2 py-4">
+                              <input
+                                type="number"
+                                aria-label={`${field.label} for ${entry.assay_name}`}
+                                value={entryOverrides[field.key] ?? ''}
+                                placeholder={sharedValues[field.key]}
+                                onChange={(e) => handleOverrideChange(entry.planner_entry_id, field.key, e.target.value)}
+                                step={field.step}
+                                className={`w-24 px-2 py-1 text-sm border rounded-lg text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                                  isOverridden
+                                    ? 'border-blue-400 dark:border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                                    : 'border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700'
+                                }`}
+                              />
+                            </td>
+                          )
+                        })}
+                        <td className="px-6 py-4 whitespace-nowrap text-right">
+                          <button
+                            type="button"
+                            onClick={() => handleResetOverrides(entry.planner_entry_id)}
+                            disabled={Object.keys(entryOverrides).length === 0}
+                            className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 disabled:text-gray-400 disabled:cursor-not-allowed"
+                          >
+                            Reset
+                          </button>
+                        </td>
+                      </tr>
+                    )
+                  })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
 
+// Sequence count and runtime columns of the assay list
+function EstimateCells({ estimate, selected }: { estimate: JobEstimate | null; selected: boolean }) {
+  if (!estimate || estimate.error) {
+    return (
+      <td
+        colSpan={2}
+        className={`px-6 py-4 whitespace-nowrap text-sm ${
+          estimate?.error ? 'text-red-600 dark:text-red-400' : 'text-gray-400 dark:text-gray-500 italic'
+        }`}
+      >
+        {estimate?.error || (selected ? 'Not estimated' : '')}
+      </td>
+    )
+  }
+  return (
+    <>
+      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+        {estimate.sequenceCount?.toLocaleString()}
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+        {estimate.runtimeClass && RUNTIME_CLASS_LABELS[estimate.runtimeClass]}
+      </td>
+    </>
+  )
+}
+
@@ -1,65 +1,39 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { supabase } from '@/lib/supabase'
+import { useState, useEffect, useRef, useCallback } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { deleteBlastAlignerJob, fetchBlastAlignerJobs, fetchBlastAlignerJobsById, fetchUserAssays } from '@/lib/api'
+import {
+  collectOligoNames,
+  getJobLifecycleStatus,
+  isCompletedJob,
+  isTerminalStatus,
+  perOligoStatsByRole,
+  plannerPrefillQuery,
+  sortJobsByDateRange,
+  summarizeJob,
+} from '@/lib/jobs'
+import type { CompletedJob, JobLifecycleStatus, JobSummary } from '@/lib/jobs'
+import { OLIGO_ROLE_LABELS, OLIGO_STRAND_LABELS } from '@/lib/oligoRoles'
+import { formatSegment, safeParsePattern } from '@/lib/patterns'
+import type { PatternSegment } from '@/lib/patterns'
+import { downloadBlob, exportResultXlsx, resultFileName } from '@/lib/resultExport'
+import type { BlastAlignerJob, ResultData } from '@/lib/types'
 
 export const dynamic = 'force-dynamic'
 
-// Type definitions
-interface BlastAlignerJob {
-  align_id: number
-  created_at: string
-  user_auth: string
-  alignjob_status: string
-  alignjob_assay_id: number
-  alignjob_taxid: number
-  alignjob_date_from: string
-  alignjob_date_to: string
-  alignjob_reference_seq: string
-  alignjob_oligos: any // JSONB
-  alignjob_identity: number | null
-  alignjob_coverage: number | null
-  alignjob_match_score: number | null
-  alignjob_mismatch_score: number | null
-  alignjob_opengap: number | null
-  alignjob_extendgap: number | null
-  alignjob_oligo_min_cover: number | null
-  alignjob_result: any | null // JSONB
-}
-
-interface UserAssay {
-  assay_id: number
-  assay_name: string
-}
-
-interface ResultPattern {
-  count: number
-  pattern: string
-  examples: string[]
-  matched_oligos: number
-  total_mismatches: number
-}
+// Polling interval while any job is queued or running
+const POLL_INTERVAL_MS = 10000
 
-interface ResultData {
-  error: string | null
-  success: boolean
-  patterns: ResultPattern[]
-  statistics: {
-    alignment_rate: number
-    total_blast_hits: number
-    sequences_aligned: number
-    filtered_blast_hits: number
-    sequences_with_min_matches: number
-  }
-  per_oligo_stats: Record<string, {
-    match_rate: number
-    sense_matches: number
-    total_matches: number
-    antisense_matches: number
-  }>
+interface JobNotification {
+  alignId: number
+  assayId: number
+  status: JobLifecycleStatus
 }
 
 export default function BlastResultsPage() {
+  const searchParams = useSearchParams()
   const [jobs, setJobs] = useState<BlastAlignerJob[]>([])
   const [assays, setAssays] = useState<Map<number, string>>(new Map())
   const [loading, setLoading] = useState(true)
@@ -70,70 +44,73 @@ export default function BlastResultsPage() {
     job: BlastAlignerJob
     result: ResultData
   } | null>(null)
+  const [comparingJobs, setComparingJobs] = useState<CompletedJob[] | null>(null)
+  const [diagnosingJob, setDiagnosingJob] = useState<BlastAlignerJob | null>(null)
+
+  // Auto-refresh and notification state
+  const [autoRefreshEnabled, setAutoRefreshEnabled] = useState(true)
+  const [notifications, setNotifications] = useState<JobNotification[]>([])
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | null>(null)
+  const previousStatusesRef = useRef<Map<number, JobLifecycleStatus> | null>(null)
 
   // Fetch assays to map assay_id to assay_name
   const fetchAssays = async () => {
     try {
-      const { data, error: fetchError } = await supabase.rpc('fetch_user_assays')
-      if (fetchError) {
-        console.error('Error fetching assays:', fetchError)
-        return
-      }
-      if (data && Array.isArray(data)) {
-        const assayMap = new Map<number, string>()
-        data.forEach((assay: any) => {
-          assayMap.set(Number(assay.assay_id), assay.assay_name)
-        })
-        setAssays(assayMap)
-      }
+      const data = await fetchUserAssays()
+      const assayMap = new Map<number, string>()
+      data.forEach((assay) => {
+        assayMap.set(assay.assay_id, assay.assay_name)
+      })
+      setAssays(assayMap)
     } catch (err) {
       console.error('Error fetching assays:', err)
     }
   }
 
-  // Fetch BLAST aligner jobs
-  const fetchJobs = async () => {
-    try {
-      setError(null)
-      setLoading(true)
-      const { data, error: fetchError } = await supabase.rpc('fetch_blast_aligner_jobs')
+  // Notify about jobs that finished or failed since the previous fetch. `newJobs` may be a subset
+  // of all jobs (polling), so the statuses of the other jobs are kept
+  const notifyFinishedJobs = (newJobs: BlastAlignerJob[]) => {
+    const previousStatuses = previousStatusesRef.current
+    const newStatuses = new Map<number, JobLifecycleStatus>(previousStatuses ?? [])
+    const finished: JobNotification[] = []
 
-      if (fetchError) {
-        throw fetchError
+    newJobs.forEach((job) => {
+      const status = getJobLifecycleStatus(job)
+      newStatuses.set(job.align_id, status)
+      const previous = previousStatuses?.get(job.align_id)
+      if (previous && !isTerminalStatus(previous) && (status === 'finished' || status === 'failed')) {
+        finished.push({ alignId: job.align_id, assayId: job.alignjob_assay_id, status })
       }
+    })
+    previousStatusesRef.current = newStatuses
 
-      if (data && Array.isArray(data)) {
-        const mappedData = data.map((item: any) => ({
-          align_id: Number(item.align_id),
-          created_at: item.created_at,
-          user_auth: item.user_auth,
-          alignjob_status: item.alignjob_status,
-          alignjob_assay_id: Number(item.alignjob_assay_id),
-          alignjob_taxid: Number(item.alignjob_taxid),
-          alignjob_date_from: item.alignjob_date_from,
-          alignjob_date_to: item.alignjob_date_to,
-          alignjob_reference_seq: item.alignjob_reference_seq,
-          alignjob_oligos: item.alignjob_oligos,
-          alignjob_identity: item.alignjob_identity ? Number(item.alignjob_identity) : null,
-          alignjob_coverage: item.alignjob_coverage ? Number(item.alignjob_coverage) : null,
-          alignjob_match_score: item.alignjob_match_score ? Number(item.alignjob_match_score) : null,
-          alignjob_mismatch_score: item.alignjob_mismatch_score ? Number(item.alignjob_mismatch_score) : null,
-          alignjob_opengap: item.alignjob_opengap ? Number(item.alignjob_opengap) : null,
-          alignjob_extendgap: item.alignjob_extendgap ? Number(item.alignjob_extendgap) : null,
-          alignjob_oligo_min_cover: item.alignjob_oligo_min_cover ? Number(item.alignjob_oligo_min_cover) : null,
-          alignjob_result: item.alignjob_result,
-        }))
-        setJobs(mappedData)
-      } else {
-        setJobs([])
-      }
+    if (finished.length === 0) return
+    setNotifications((prev) => [...finished, ...prev])
+
+    if (typeof window !== 'undefined' && 'Notification' in window && Notification.permission === 'granted') {
+      finished.forEach((n) => {
+        new Notification(`BLAST job ${n.alignId} ${n.status}`, {
+          body: `The BLAST aligner job ${n.alignId} has ${n.status === 'failed' ? 'failed' : 'finished'}.`,
+        })
+      })
+    }
+  }
+
+  // Fetch all BLAST aligner jobs including their results
+  const fetchJobs = useCallback(async () => {
+    try {
+      setError(null)
+      setLoading(true)
+      const data = await fetchBlastAlignerJobs()
+      notifyFinishedJobs(data)
+      setJobs(data)
     } catch (err: any) {
       setError(err.message || 'Failed to fetch BLAST jobs')
       console.error('Error fetching BLAST jobs:', err)
     } finally {
       setLoading(false)
     }
-  }
+  }, [])
 
   useEffect(() => {
     const loadData = async () => {
@@ -141,8 +118,71 @@ export default function BlastResultsPage() {
       await fetchJobs()
     }
     loadData()
+    if (typeof window !== 'undefined' && 'Notification' in window) {
+      setNotificationPermission(Notification.permission)
+    }
+  }, [fetchJobs])
+
+  // Background refresh of the given jobs only, so finished results are not reloaded on every poll.
+  // Neither shows the loading state nor clears errors of user actions (compare, delete) still on screen.
+  // Jobs missing from the response were deleted in the meantime and are removed from the list
+  const refreshActiveJobs = useCallback(async (alignIds: number[]) => {
+    try {
+      const updated = await fetchBlastAlignerJobsById(alignIds)
+      notifyFinishedJobs(updated)
+      const updatedById = new Map(updated.map((job) => [job.align_id, job]))
+      setJobs((prev) =>
+        prev
+          .filter((job) => !alignIds.includes(job.align_id) || updatedById.has(job.align_id))
+          .map((job) => updatedById.get(job.align_id) ?? job)
+      )
+    } catch (err: any) {
+      setError(err.message || 'Failed to refresh BLAST jobs')
+      console.error('Error refreshing BLAST jobs:', err)
+    }
   }, [])
 
+  // Poll the jobs that have not reached a terminal status
+  const activeJobIds = jobs
+    .filter((job) => !isTerminalStatus(getJobLifecycleStatus(job)))
+    .map((job) => job.align_id)
+  const hasActiveJobs = activeJobIds.length > 0
+  const activeJobIdsKey = activeJobIds.join(',')
+  useEffect(() => {
+    if (!autoRefreshEnabled || !activeJobIdsKey) return
+    const alignIds = activeJobIdsKey.split(',').map(Number)
+    const interval = setInterval(() => {
+      refreshActiveJobs(alignIds)
+    }, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [autoRefreshEnabled, activeJobIdsKey, refreshActiveJobs])
+
+  // Ask for permission to show desktop notifications
+  const handleEnableNotifications = async () => {
+    if (typeof window === 'undefined' || !('Notification' in window)) return
+    setNotificationPermission(await Notification.requestPermission())
+  }
+
+  const dismissNotification = (alignId: number) => {
+    setNotifications((prev) => prev.filter((n) => n.alignId !== alignId))
+  }
+
+  // Open the result of a job linked via ?job=<align_id> (e.g. from the trends page)
+  // Only opened once, so refreshing the job list does not reopen a closed viewer
+  const linkedJobId = searchParams?.get('job')
+  const openedLinkedJobRef = useRef<string | null>(null)
+  useEffect(() => {
+    if (!linkedJobId || openedLinkedJobRef.current === linkedJobId) return
+    const job = jobs.find((j) => j.align_id === Number(linkedJobId))
+    if (job && isCompletedJob(job)) {
+      openedLinkedJobRef.current = linkedJobId
+      setViewingResult({ job, result: job.alignjob_result })
+    } else if (job && getJobLifecycleStatus(job) === 'failed') {
+      openedLinkedJobRef.current = linkedJobId
+      setDiagnosingJob(job)
+    }
+  }, [linkedJobId, jobs])
+
   // Handle checkbox toggle
   const handleCheckboxToggle = (alignId: number) => {
     setSelectedJobs((prev) => {
@@ -176,15 +216,15 @@ export default function BlastResultsPage() {
     setError(null)
 
     try {
-      const deletePromises = Array.from(selectedJobs).map((alignId) =>
-        supabase.rpc('delete_blast_aligner_job', { p_align_id: alignId })
+      const results = await Promise.allSettled(
+        Array.from(selectedJobs).map((alignId) => deleteBlastAlignerJob(alignId))
+      )
+      const errors = results.filter(
+        (result): result is PromiseRejectedResult => result.status === 'rejected'
       )
-
-      const results = await Promise.all(deletePromises)
-      const errors = results.filter((result) => result.error)
 
       if (errors.length > 0) {
-        const errorMessages = errors.map((e) => e.error?.message || 'Unknown error').join('; ')
+        const errorMessages = errors.map((e) => e.reason?.message || 'Unknown error').join('; ')
         throw new Error(`Failed to delete some jobs: ${errorMessages}`)
       }
 
@@ -198,11 +238,35 @@ export default function BlastResultsPage() {
     }
   }
 
+  // Handle compare - only completed jobs of the same assay can be compared
+  const handleCompare = () => {
+    const selected = jobs.filter((job) => selectedJobs.has(job.align_id))
+    if (selected.length < 2) {
+      setError('Please select at least two jobs to compare')
+      return
+    }
+
+    const completed = selected.filter(isCompletedJob)
+    if (completed.length !== selected.length) {
+      setError('Only completed jobs with results can be compared')
+      return
+    }
+
+    const assayIds = new Set(completed.map((job) => job.alignjob_assay_id))
+    if (assayIds.size > 1) {
+      setError('Only jobs for the same assay can be compared')
+      return
+    }
+
+    setError(null)
+    setComparingJobs(sortJobsByDateRange(completed))
+  }
+
   // Handle view result
   const handleViewResult = (job: BlastAlignerJob) => {
-    if (job.alignjob_status === 'done' && job.alignjob_result) {
+    if (isCompletedJob(job)) {
       try {
-        const result = job.alignjob_result as ResultData
+        const result = job.alignjob_result
         setViewingResult({ job, result })
       } catch (err) {
         setError('Failed to parse result data')
@@ -225,16 +289,37 @@ export default function BlastResultsPage() {
     })
   }
 
-  // Get status badge
-  const getStatusBadge = (status: string) => {
-    const statusColors: Record<string, { bg: string; text: string }> = {
-      scheduled: { bg: 'bg-yellow-100 dark:bg-yellow-900/30', text: 'text-yellow-800 dark:text-yellow-300' },
-      working: { bg: 'bg-blue-100 dark:bg-blue-900/30', text: 'text-blue-800 dark:text-blue-300' },
-      done: { bg: 'bg-green-100 dark:bg-green-900/30', text: 'text-green-800 dark:text-green-300' },
+  // Get status badge (queued -> running -> finished | failed, or unknown)
+  const getStatusBadge = (job: BlastAlignerJob) => {
+    const status = getJobLifecycleStatus(job)
+    const statusColors: Record<JobLifecycleStatus, { bg: string; text: string }> = {
+      queued: { bg: 'bg-yellow-100 dark:bg-yellow-900/30', text: 'text-yellow-800 dark:text-yellow-300' },
+      running: { bg: 'bg-blue-100 dark:bg-blue-900/30', text: 'text-blue-800 dark:text-blue-300' },
+      finished: { bg: 'bg-green-100 dark:bg-green-900/30', text: 'text-green-800 dark:text-green-300' },
+      failed: { bg: 'bg-red-100 dark:bg-red-900/30', text: 'text-red-800 dark:text-red-300' },
+      unknown: { bg: 'bg-gray-100 dark:bg-gray-700', text: 'text-gray-800 dark:text-gray-300' },
     }
-    const colors = statusColors[status] || { bg: 'bg-gray-100 dark:bg-gray-700', text: 'text-gray-800 dark:text-gray-300' }
+    const colors = statusColors[status]
     return (
-      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${colors.bg} ${colors.text}`}>
+      <span
+        className={`inline-flex items-center gap-2 px-2.5 py-0.5 rounded-full text-xs font-medium ${colors.bg} ${colors.text}`}
+        title={`Status: ${job.alignjob_status}`}
+      >
+        {status === 'running' && (
+          <svg
+            className="w-3 h-3 animate-spin"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+            />
+          </svg>
+        )}
         {status.charAt(0).toUpperCase() + status.slice(1)}
       </span>
     )
@@ -252,6 +337,28 @@ export default function BlastResultsPage() {
         </div>
       )}
 
+      {/* Job finished notifications */}
+      {notifications.map((n) => (
+        <div
+          key={n.alignId}
+          className={`p-4 border rounded-lg flex justify-between items-center ${
+            n.status === 'failed'
+              ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
+              : 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800'
+          }`}
+        >
+          <p className={n.status === 'failed' ? 'text-red-800 dark:text-red-200' : 'text-green-800 dark:text-green-200'}>
+            BLAST job {n.alignId} for {getAssayName(n.assayId)} has {n.status === 'failed' ? 'failed' : 'finished'}.
+          </p>
+          <button
+            onClick={() => dismissNotification(n.alignId)}
+            className="text-sm text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white"
+          >
+            Dismiss
+          </button>
+        </div>
+      ))}
+
       {/* Actions bar */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 flex justify-between items-center">
         <div className="flex items-center gap-4">
@@ -273,13 +380,46 @@ export default function BlastResultsPage() {
           >
             {deleteLoading ? 'Deleting...' : `Delete (${selectedJobs.size})`}
           </button>
+          <button
+            onClick={handleCompare}
+            disabled={selectedJobs.size < 2}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-lg shadow-sm transition-colors"
+          >
+            {`Compare (${selectedJobs.size})`}
+          </button>
+        </div>
+        <div className="flex items-center gap-4">
+          {notificationPermission === 'default' && (
+            <button
+              onClick={handleEnableNotifications}
+              className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              Enable desktop notifications
+            </button>
+          )}
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="auto-refresh"
+              checked={autoRefreshEnabled}
+              onChange={(e) => setAutoRefreshEnabled(e.target.checked)}
+              className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+            />
+            <label
+              htmlFor="auto-refresh"
+              className="text-sm font-medium text-gray-700 dark:text-gray-300 cursor-pointer"
+              title="Refreshes automatically while jobs are queued or running"
+            >
+              Auto-refresh{autoRefreshEnabled && hasActiveJobs ? ' (active)' : ''}
+            </label>
+          </div>
+          <button
+            onClick={() => fetchJobs()}
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg shadow-sm transition-colors"
+          >
+            Refresh
+          </button>
         </div>
-        <button
-          onClick={fetchJobs}
-          className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg shadow-sm transition-colors"
-        >
-          Refresh
-        </button>
       </div>
 
       {/* Jobs list */}
@@ -318,14 +458,21 @@ export default function BlastResultsPage() {
               </thead>
               <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
                 {jobs.map((job) => {
-                  const canViewResult = job.alignjob_status === 'done' && job.alignjob_result !== null
+                  const canViewResult = isCompletedJob(job)
+                  const isFailed = getJobLifecycleStatus(job) === 'failed'
                   return (
                     <tr
                       key={job.align_id}
                       className={`hover:bg-gray-50 dark:hover:bg-gray-700 ${
-                        canViewResult ? 'cursor-pointer' : ''
+                        canViewResult || isFailed ? 'cursor-pointer' : ''
                       }`}
-                      onClick={() => canViewResult && handleViewResult(job)}
+                      onClick={() => {
+                        if (canViewResult) {
+                          handleViewResult(job)
+                        } else if (isFailed) {
+                          setDiagnosingJob(job)
+                        }
+                      }}
                     >
                       <td className="px-6 py-4 whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
                         <input
@@ -342,10 +489,13 @@ export default function BlastResultsPage() {
                         {formatDate(job.alignjob_date_from)} - {formatDate(job.alignjob_date_to)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        {getStatusBadge(job.alignjob_status)}
+                        {getStatusBadge(job)}
                         {canViewResult && (
                           <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">(Click to view)</span>
                         )}
+                        {isFailed && (
+                          <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">(Click for details)</span>
+                        )}
                       </td>
                     </tr>
                   )
@@ -365,6 +515,24 @@ export default function BlastResultsPage() {
           onClose={() => setViewingResult(null)}
         />
       )}
+
+      {/* Job Comparison Modal */}
+      {comparingJobs && (
+        <JobComparison
+          jobs={comparingJobs}
+          assayName={getAssayName(comparingJobs[0].alignjob_assay_id)}
+          onClose={() => setComparingJobs(null)}
+        />
+      )}
+
+      {/* Failed Job Diagnostics Modal */}
+      {diagnosingJob && (
+        <FailedJobDiagnostics
+          job={diagnosingJob}
+          assayName={getAssayName(diagnosingJob.alignjob_assay_id)}
+          onClose={() => setDiagnosingJob(null)}
+        />
+      )}
     </div>
   )
 }
@@ -378,10 +546,20 @@ interface ResultViewerProps {
 }
 
 function ResultViewer({ job, result, assayName, onClose }: ResultViewerProps) {
-  // Parse oligos from JSONB
-  const oligos = Array.isArray(job.alignjob_oligos) ? job.alignjob_oligos : []
-  const oligoNames = oligos.map((o: any) => o.id || '')
-  const oligoSequences = oligos.map((o: any) => o.sequence || '')
+  const [xlsxExporting, setXlsxExporting] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
+
+  // Oligos submitted with the job
+  const oligoNames = job.alignjob_oligos.map((o) => o.id)
+  const oligoSequences = job.alignjob_oligos.map((o) => o.sequence)
+  const oligoStatsRows = perOligoStatsByRole(job, result)
+
+  // Parse every pattern once; malformed patterns are reported instead of silently dropped
+  const parsedPatterns = result.patterns.map((pattern) => ({
+    pattern,
+    parsed: safeParsePattern(pattern.pattern, oligoNames.length > 0 ? oligoNames.length : undefined),
+  }))
+  const malformedCount = parsedPatterns.filter((p) => !p.parsed.ok).length
 
   // Export to CSV
   const handleExportCSV = () => {
@@ -423,14 +601,16 @@ function ResultViewer({ job, result, assayName, onClose }: ResultViewerProps) {
     addRow(['Sequences with Min Matches', result.statistics.sequences_with_min_matches.toString()])
 
     // Per-Oligo Statistics
-    if (result.per_oligo_stats && Object.keys(result.per_oligo_stats).length > 0) {
+    if (oligoStatsRows.length > 0) {
       addSectionHeader('Per-Oligo Statistics')
       // Header row
-      addRow(['Oligo Name', 'Match Rate (%)', 'Sense Matches', 'Antisense Matches', 'Total Matches'])
+      addRow(['Oligo Name', 'Role', 'Expected Strand', 'Match Rate (%)', 'Sense Matches', 'Antisense Matches', 'Total Matches'])
       // Data rows
-      Object.entries(result.per_oligo_stats).forEach(([oligoName, stats]) => {
+      oligoStatsRows.forEach(({ name, stats, role, strand }) => {
         addRow([
-          oligoName,
+          name,
+          role ? OLIGO_ROLE_LABELS[role] : '',
+          strand ? OLIGO_STRAND_LABELS[strand] : '',
           stats.match_rate.toString(),
           stats.sense_matches.toString(),
           stats.antisense_matches.toString(),
@@ -471,20 +651,11 @@ function ResultViewer({ job, result, assayName, onClose }: ResultViewerProps) {
     addRow([...oligoSequences, '', '', ''])
 
     // Pattern rows
-    result.patterns.forEach((pattern) => {
-      // Parse pattern to extract alignment strings for each oligo
-      // Pattern format: "........................(fwd) | ..........................(rev) | ..."
-      const patternParts = pattern.pattern.split('|').map((p) => p.trim())
-      const alignmentStrings = patternParts.map((part) => {
-        // Extract the dots/alignment part before the direction indicator
-        const match = part.match(/^([^()]+)/)
-        if (match) {
-          return match[1].trim()
-        }
-        // If no match, try to extract just the dots
-        const dotMatch = part.match(/^([.]+)/)
-        return dotMatch ? dotMatch[1] : part
-      })
+    parsedPatterns.forEach(({ pattern, parsed }) => {
+      // One cell per oligo; malformed patterns are exported raw with the parse error
+      const alignmentStrings = parsed.ok
+        ? parsed.value.segments.map(formatSegment)
+        : [`Malformed pattern (${parsed.error.message}): ${pattern.pattern}`]
 
       // Pad to match number of oligos
       while (alignmentStrings.length < oligoNames.length) {
@@ -492,7 +663,7 @@ function ResultViewer({ job, result, assayName, onClose }: ResultViewerProps) {
       }
 
       addRow([
-        ...alignmentStrings.slice(0, oligoNames.length),
+        ...alignmentStrings.slice(0, Math.max(oligoNames.length, 1)),
         pattern.count.toString(),
         pattern.total_mismatches.toString(),
         pattern.examples.join('; '),
@@ -504,14 +675,21 @@ function ResultViewer({ job, result, assayName, onClose }: ResultViewerProps) {
 
     // Download
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
-    const link = document.createElement('a')
-    const url = URL.createObjectURL(blob)
-    link.setAttribute('href', url)
-    link.setAttribute('download', `blast_result_${job.align_id}_${assayName.replace(/\s+/g, '_')}.csv`)
-    link.style.visibility = 'hidden'
-    document.body.appendChild(link)
-    link.click()
-    document.body.removeChild(link)
+    downloadBlob(blob, resultFileName(job, assayName, 'csv'))
+  }
+
+  // Export to XLSX (one sheet per section)
+  const handleExportXLSX = async () => {
+    setXlsxExporting(true)
+    setExportError(null)
+    try {
+      await exportResultXlsx(job, result, assayName)
+    } catch (err: any) {
+      setExportError(err.message || 'Failed to export Excel file')
+      console.error('Error exporting XLSX:', err)
+    } finally {
+      setXlsxExporting(false)
+    }
   }
 
   return (
@@ -534,6 +712,13 @@ function ResultViewer({ job, result, assayName, onClose }: ResultViewerProps) {
             >
               Export CSV
             </button>
+            <button
+              onClick={handleExportXLSX}
+              disabled={xlsxExporting}
+              className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white rounded-lg shadow-sm transition-colors text-sm"
+            >
+              {xlsxExporting ? 'Exporting...' : 'Export Excel'}
+            </button>
             <button
               onClick={onClose}
               className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg shadow-sm transition-colors"
@@ -545,21 +730,41 @@ function ResultViewer({ job, result, assayName, onClose }: ResultViewerProps) {
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-6">
+          {exportError && (
+            <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-red-800 dark:text-red-200">{exportError}</p>
+            </div>
+          )}
+
           {/* Alignment Patterns Table */}
           <div className="mb-6">
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
               Alignment Patterns
             </h3>
+            <PatternLegend />
+            {malformedCount > 0 && (
+              <div className="mb-3 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                <p className="text-sm text-red-800 dark:text-red-200">
+                  {malformedCount} pattern(s) could not be parsed and are shown unformatted below.
+                </p>
+              </div>
+            )}
             <div className="overflow-x-auto">
               <table className="w-full border-collapse border border-gray-300 dark:border-gray-600">
                 <thead>
                   <tr className="bg-gray-50 dark:bg-gray-700">
-                    {oligoNames.map((name, idx) => (
+                    {job.alignjob_oligos.map((oligo, idx) => (
                       <th
                         key={idx}
                         className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-left text-sm font-medium text-gray-900 dark:text-white"
                       >
-                        {name}
+                        {oligo.id}
+                        {oligo.role && (
+                          <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">
+                            {OLIGO_ROLE_LABELS[oligo.role]}
+                            {oligo.strand && ` (${OLIGO_STRAND_LABELS[oligo.strand].toLowerCase()})`}
+                          </span>
+                        )}
                       </th>
                     ))}
                     <th className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-left text-sm font-medium text-gray-900 dark:text-white">
@@ -581,7 +786,7 @@ function ResultViewer({ job, result, assayName, onClose }: ResultViewerProps) {
                         key={idx}
                         className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-xs font-mono text-gray-700 dark:text-gray-300"
                       >
-                        {seq}
+                        <OligoSequence sequence={seq} />
                       </td>
                     ))}
                     <td className="border border-gray-300 dark:border-gray-600 px-4 py-2"></td>
@@ -589,37 +794,27 @@ function ResultViewer({ job, result, assayName, onClose }: ResultViewerProps) {
                     <td className="border border-gray-300 dark:border-gray-600 px-4 py-2"></td>
                   </tr>
                   {/* Pattern rows */}
-                  {result.patterns.map((pattern, patternIdx) => {
-                    // Parse pattern to extract alignment strings for each oligo
-                    // Pattern format: "........................(fwd) | ..........................(rev) | ..."
-                    const patternParts = pattern.pattern.split('|').map((p) => p.trim())
-                    const alignmentStrings = patternParts.map((part) => {
-                      // Extract the dots/alignment part before the direction indicator
-                      // Match everything up to (fwd) or (rev) or similar
-                      const match = part.match(/^([^()]+)/)
-                      if (match) {
-                        return match[1].trim()
-                      }
-                      // If no match, try to extract just the dots
-                      const dotMatch = part.match(/^([.]+)/)
-                      return dotMatch ? dotMatch[1] : part
-                    })
-
-                    // Pad to match number of oligos
-                    while (alignmentStrings.length < oligoNames.length) {
-                      alignmentStrings.push('')
-                    }
-
+                  {parsedPatterns.map(({ pattern, parsed }, patternIdx) => {
                     return (
                       <tr key={patternIdx} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
-                        {alignmentStrings.slice(0, oligoNames.length).map((alignStr, idx) => (
+                        {parsed.ok ? (
+                          parsed.value.segments.map((segment, idx) => (
+                            <td
+                              key={idx}
+                              className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-xs font-mono text-gray-700 dark:text-gray-300"
+                            >
+                              <PatternAlignment segment={segment} oligoSequence={oligoSequences[idx] || ''} />
+                            </td>
+                          ))
+                        ) : (
                           <td
-                            key={idx}
-                            className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-xs font-mono text-gray-700 dark:text-gray-300"
+                            colSpan={Math.max(oligoNames.length, 1)}
+                            className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-xs bg-red-50 dark:bg-red-900/20"
                           >
-                            {alignStr}
+                            <p className="text-red-800 dark:text-red-200">{parsed.error.message}</p>
+                            <p className="mt-1 font-mono text-gray-700 dark:text-gray-300 break-all">{pattern.pattern}</p>
                           </td>
-                        ))}
+                        )}
                         <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-sm text-gray-900 dark:text-white">
                           {pattern.count}
                         </td>
@@ -683,11 +878,16 @@ function ResultViewer({ job, result, assayName, onClose }: ResultViewerProps) {
           </div>
 
           {/* Per-Oligo Statistics */}
-          {result.per_oligo_stats && Object.keys(result.per_oligo_stats).length > 0 && (
+          {oligoStatsRows.length > 0 && (
             <div className="mb-6">
               <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
                 Per-Oligo Statistics
               </h3>
+              {oligoStatsRows.some((row) => row.strand !== null) && (
+                <p className="mb-3 text-sm text-gray-600 dark:text-gray-400">
+                  Matches on the expected strand of each oligo are highlighted.
+                </p>
+              )}
               <div className="overflow-x-auto">
                 <table className="w-full border-collapse border border-gray-300 dark:border-gray-600">
                   <thead>
@@ -695,6 +895,9 @@ function ResultViewer({ job, result, assayName, onClose }: ResultViewerProps) {
                       <th className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-left text-sm font-medium text-gray-900 dark:text-white">
                         Oligo Name
                       </th>
+                      <th className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-left text-sm font-medium text-gray-900 dark:text-white">
+                        Role
+                      </th>
                       <th className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-left text-sm font-medium text-gray-900 dark:text-white">
                         Match Rate (%)
                       </th>
@@ -710,18 +913,31 @@ function ResultViewer({ job, result, assayName, onClose }: ResultViewerProps) {
                     </tr>
                   </thead>
                   <tbody>
-                    {Object.entries(result.per_oligo_stats).map(([oligoName, stats]) => (
-                      <tr key={oligoName} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                    {oligoStatsRows.map(({ name, stats, role, strand }) => (
+                      <tr key={name} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
                         <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-sm font-medium text-gray-900 dark:text-white">
-                          {oligoName}
+                          {name}
                         </td>
                         <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-sm text-gray-900 dark:text-white">
-                          {stats.match_rate}%
+                          {role ? OLIGO_ROLE_LABELS[role] : <span className="text-gray-400 dark:text-gray-500 italic">Not set</span>}
                         </td>
                         <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-sm text-gray-900 dark:text-white">
+                          {stats.match_rate}%
+                        </td>
+                        <td
+                          className={`border border-gray-300 dark:border-gray-600 px-4 py-2 text-sm text-gray-900 dark:text-white ${
+                            strand === 'sense' ? 'font-semibold bg-green-50 dark:bg-green-900/20' : ''
+                          }`}
+                          title={strand === 'sense' ? 'Expected strand' : undefined}
+                        >
                           {stats.sense_matches}
                         </td>
-                        <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-sm text-gray-900 dark:text-white">
+                        <td
+                          className={`border border-gray-300 dark:border-gray-600 px-4 py-2 text-sm text-gray-900 dark:text-white ${
+                            strand === 'antisense' ? 'font-semibold bg-green-50 dark:bg-green-900/20' : ''
+                          }`}
+                          title={strand === 'antisense' ? 'Expected strand' : undefined}
+                        >
                           {stats.antisense_matches}
                         </td>
                         <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-sm text-gray-900 dark:text-white">
@@ -736,53 +952,428 @@ function ResultViewer({ job, result, assayName, onClose }: ResultViewerProps) {
           )}
 
           {/* Input Parameters */}
+          <InputParameters job={job} />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// Parameters the job was submitted with
+function InputParameters({ job }: { job: BlastAlignerJob }) {
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+        Input Parameters
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+            Date Range
+          </h4>
+          <p className="text-sm text-gray-900 dark:text-white">
+            {job.alignjob_date_from} to {job.alignjob_date_to}
+          </p>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+            BLAST Parameters
+          </h4>
+          <div className="space-y-1 text-sm text-gray-900 dark:text-white">
+            <p>Identity: {job.alignjob_identity ?? 'N/A'}%</p>
+            <p>Coverage: {job.alignjob_coverage ?? 'N/A'}%</p>
+          </div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+            Pairwise Aligner Parameters
+          </h4>
+          <div className="space-y-1 text-sm text-gray-900 dark:text-white">
+            <p>Match Score: {job.alignjob_match_score ?? 'N/A'}</p>
+            <p>Mismatch Score: {job.alignjob_mismatch_score ?? 'N/A'}</p>
+            <p>Open Gap Penalty: {job.alignjob_opengap ?? 'N/A'}</p>
+            <p>Extend Gap Penalty: {job.alignjob_extendgap ?? 'N/A'}</p>
+          </div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+            Other Parameters
+          </h4>
+          <div className="space-y-1 text-sm text-gray-900 dark:text-white">
+            <p>Oligo Min Cover: {job.alignjob_oligo_min_cover ?? 'N/A'}</p>
+            <p>TaxID: {job.alignjob_taxid}</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface FailedJobDiagnosticsProps {
+  job: BlastAlignerJob
+  assayName: string
+  onClose: () => void
+}
+
+// Error message and inputs of a failed job, with a shortcut to order it again
+function FailedJobDiagnostics({ job, assayName, onClose }: FailedJobDiagnosticsProps) {
+  const errorMessage = job.alignjob_result?.error || 'The aligner did not report an error message.'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
           <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+              Failed BLAST Job: {assayName}
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Job ID: {job.align_id} | Status: {job.alignjob_status} | Created:{' '}
+              {new Date(job.created_at).toLocaleString()}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Link
+              href={`/blast-planner?${plannerPrefillQuery(job)}`}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg shadow-sm transition-colors text-sm"
+            >
+              Re-order with same parameters
+            </Link>
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg shadow-sm transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {/* Error */}
+          <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <h3 className="text-sm font-medium text-red-800 dark:text-red-200 mb-1">Error</h3>
+            <p className="text-sm text-red-800 dark:text-red-200 font-mono whitespace-pre-wrap break-words">
+              {errorMessage}
+            </p>
+          </div>
+
+          {/* Submitted parameters */}
+          <div className="mb-6">
+            <InputParameters job={job} />
+          </div>
+
+          {/* Reference amplicon */}
+          <div className="mb-6">
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-              Input Parameters
+              Reference Sequence (
+              {job.alignjob_amplicon_version !== null && `version ${job.alignjob_amplicon_version}, `}
+              {job.alignjob_reference_seq?.length ?? 0} bp)
             </h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
-                <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
-                  Date Range
-                </h4>
-                <p className="text-sm text-gray-900 dark:text-white">
-                  {job.alignjob_date_from} to {job.alignjob_date_to}
-                </p>
-              </div>
-              <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
-                <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
-                  BLAST Parameters
-                </h4>
-                <div className="space-y-1 text-sm text-gray-900 dark:text-white">
-                  <p>Identity: {job.alignjob_identity ?? 'N/A'}%</p>
-                  <p>Coverage: {job.alignjob_coverage ?? 'N/A'}%</p>
-                </div>
-              </div>
-              <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
-                <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
-                  Pairwise Aligner Parameters
-                </h4>
-                <div className="space-y-1 text-sm text-gray-900 dark:text-white">
-                  <p>Match Score: {job.alignjob_match_score ?? 'N/A'}</p>
-                  <p>Mismatch Score: {job.alignjob_mismatch_score ?? 'N/A'}</p>
-                  <p>Open Gap Penalty: {job.alignjob_opengap ?? 'N/A'}</p>
-                  <p>Extend Gap Penalty: {job.alignjob_extendgap ?? 'N/A'}</p>
-                </div>
-              </div>
-              <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
-                <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
-                  Other Parameters
-                </h4>
-                <div className="space-y-1 text-sm text-gray-900 dark:text-white">
-                  <p>Oligo Min Cover: {job.alignjob_oligo_min_cover ?? 'N/A'}</p>
-                  <p>TaxID: {job.alignjob_taxid}</p>
-                </div>
+            {job.alignjob_reference_seq ? (
+              <p className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg text-xs font-mono text-gray-700 dark:text-gray-300 break-all">
+                {job.alignjob_reference_seq}
+              </p>
+            ) : (
+              <p className="text-sm text-gray-600 dark:text-gray-400">No reference sequence was submitted.</p>
+            )}
+          </div>
+
+          {/* Oligos */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+              Oligos ({job.alignjob_oligos.length})
+            </h3>
+            {job.alignjob_oligos.length === 0 ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400">No oligos were submitted.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full border-collapse border border-gray-300 dark:border-gray-600">
+                  <thead>
+                    <tr className="bg-gray-50 dark:bg-gray-700">
+                      <th className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-left text-sm font-medium text-gray-900 dark:text-white">
+                        Oligo Name
+                      </th>
+                      <th className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-left text-sm font-medium text-gray-900 dark:text-white">
+                        Sequence
+                      </th>
+                      <th className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-left text-sm font-medium text-gray-900 dark:text-white">
+                        Length
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {job.alignjob_oligos.map((oligo, idx) => (
+                      <tr key={idx}>
+                        <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-sm font-medium text-gray-900 dark:text-white">
+                          {oligo.id}
+                        </td>
+                        <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-xs font-mono text-gray-700 dark:text-gray-300 break-all">
+                          {oligo.sequence}
+                        </td>
+                        <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-sm text-gray-900 dark:text-white">
+                          {oligo.sequence.length}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
               </div>
-            </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// Drop in percentage points between consecutive jobs that is highlighted as degradation
+const RATE_DROP_THRESHOLD = 5
+
+interface JobComparisonProps {
+  jobs: CompletedJob[] // sorted by date range
+  assayName: string
+  onClose: () => void
+}
+
+// Side-by-side comparison of several completed jobs of one assay
+function JobComparison({ jobs, assayName, onClose }: JobComparisonProps) {
+  const summaries = jobs.map(summarizeJob)
+  const oligoNames = collectOligoNames(summaries)
+
+  // Rows of the comparison table; rates are in percent and higher is better
+  const rows: Array<{
+    label: string
+    value: (summary: JobSummary) => number | null
+    isRate: boolean
+  }> = [
+    { label: 'Alignment Rate (%)', value: (s) => s.alignmentRate, isRate: true },
+    { label: 'Total BLAST Hits', value: (s) => s.totalBlastHits, isRate: false },
+    { label: 'Sequences Aligned', value: (s) => s.sequencesAligned, isRate: false },
+    { label: 'Distinct Patterns', value: (s) => s.distinctPatterns, isRate: false },
+    { label: 'Sequences without Mismatches', value: (s) => s.perfectMatchSequences, isRate: false },
+    { label: 'Sequences with Mismatches', value: (s) => s.mismatchSequences, isRate: false },
+    ...oligoNames.map((name) => ({
+      label: `${name} Match Rate (%)`,
+      value: (s: JobSummary) => (name in s.oligoMatchRates ? s.oligoMatchRates[name] : null),
+      isRate: true,
+    })),
+  ]
+
+  const formatNumber = (value: number) =>
+    Number.isInteger(value) ? value.toString() : value.toFixed(2)
+
+  const renderDelta = (current: number | null, previous: number | null, isRate: boolean) => {
+    if (current === null || previous === null) {
+      return null
+    }
+    const delta = current - previous
+    if (delta === 0) {
+      return <span className="ml-2 text-xs text-gray-400 dark:text-gray-500">±0</span>
+    }
+    const color = !isRate
+      ? 'text-gray-500 dark:text-gray-400'
+      : delta > 0
+      ? 'text-green-700 dark:text-green-400'
+      : 'text-red-700 dark:text-red-400'
+    return (
+      <span className={`ml-2 text-xs font-medium ${color}`}>
+        {delta > 0 ? '▲' : '▼'} {formatNumber(Math.abs(delta))}
+      </span>
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-7xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+              Job Comparison: {assayName}
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              {jobs.length} jobs ordered by date range. Deltas are relative to the previous job; drops of{' '}
+              {RATE_DROP_THRESHOLD} percentage points or more are highlighted.
+            </p>
           </div>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg shadow-sm transition-colors"
+          >
+            Close
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto p-6">
+          <table className="w-full border-collapse border border-gray-300 dark:border-gray-600">
+            <thead>
+              <tr className="bg-gray-50 dark:bg-gray-700">
+                <th className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-left text-sm font-medium text-gray-900 dark:text-white">
+                  Metric
+                </th>
+                {summaries.map((summary) => (
+                  <th
+                    key={summary.alignId}
+                    className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-left text-sm font-medium text-gray-900 dark:text-white whitespace-nowrap"
+                  >
+                    <div>Job {summary.alignId}</div>
+                    <div className="text-xs font-normal text-gray-600 dark:text-gray-400">
+                      {summary.dateFrom} - {summary.dateTo}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.label} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                  <td className="border border-gray-300 dark:border-gray-600 px-4 py-2 text-sm font-medium text-gray-900 dark:text-white whitespace-nowrap">
+                    {row.label}
+                  </td>
+                  {summaries.map((summary, idx) => {
+                    const current = row.value(summary)
+                    const previous = idx > 0 ? row.value(summaries[idx - 1]) : null
+                    const degraded =
+                      row.isRate &&
+                      current !== null &&
+                      previous !== null &&
+                      previous - current >= RATE_DROP_THRESHOLD
+                    return (
+                      <td
+                        key={summary.alignId}
+                        className={`border border-gray-300 dark:border-gray-600 px-4 py-2 text-sm text-gray-900 dark:text-white whitespace-nowrap ${
+                          degraded ? 'bg-red-50 dark:bg-red-900/20' : ''
+                        }`}
+                      >
+                        {current !== null ? formatNumber(current) : <span className="text-gray-400">N/A</span>}
+                        {renderDelta(current, previous, row.isRate)}
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
         </div>
       </div>
     </div>
   )
 }
 
+// Number of bases at the 3' end of an oligo where mismatches are considered critical
+const THREE_PRIME_WINDOW = 5
+
+const isThreePrimePosition = (position: number, oligoLength: number) =>
+  position >= oligoLength - THREE_PRIME_WINDOW
+
+// Oligo sequence with the 3' end region underlined
+function OligoSequence({ sequence }: { sequence: string }) {
+  const splitAt = Math.max(sequence.length - THREE_PRIME_WINDOW, 0)
+  return (
+    <span className="whitespace-nowrap">
+      {sequence.slice(0, splitAt)}
+      <span
+        className="underline decoration-2 decoration-indigo-500 underline-offset-2 text-indigo-700 dark:text-indigo-300"
+        title={`3' end (last ${THREE_PRIME_WINDOW} bases)`}
+      >
+        {sequence.slice(splitAt)}
+      </span>
+    </span>
+  )
+}
+
+// Alignment pattern of one oligo rendered position by position against the oligo sequence.
+// '.' is a match, '-' a gap and any other character the base found in the target sequence.
+function PatternAlignment({ segment, oligoSequence }: { segment: PatternSegment; oligoSequence: string }) {
+  if (!segment.covered) {
+    return <span className="font-sans italic text-gray-400 dark:text-gray-500">Not covered</span>
+  }
+
+  const { alignment, strand } = segment
+  const oligoLength = oligoSequence.length || alignment.length
+  let mismatchCount = 0
+  let threePrimeMismatchCount = 0
+
+  const positions = alignment.split('').map((char, idx) => {
+    const refBase = oligoSequence[idx] || '?'
+    const threePrime = isThreePrimePosition(idx, oligoLength)
+    const isMatch = char === '.'
+
+    if (!isMatch) {
+      mismatchCount++
+      if (threePrime) {
+        threePrimeMismatchCount++
+      }
+    }
+
+    let className = threePrime ? 'bg-indigo-50 dark:bg-indigo-900/30 text-gray-400' : 'text-gray-400'
+    let tooltip: string | null = null
+    if (char === '-') {
+      className = threePrime
+        ? 'bg-orange-500 text-white font-bold'
+        : 'bg-orange-200 text-orange-900 dark:bg-orange-900/50 dark:text-orange-200'
+      tooltip = `Position ${idx + 1}: ${refBase} → gap`
+    } else if (!isMatch) {
+      className = threePrime
+        ? 'bg-red-600 text-white font-bold'
+        : 'bg-red-200 text-red-900 dark:bg-red-900/50 dark:text-red-200'
+      tooltip = `Position ${idx + 1}: ${refBase} → ${char}`
+    }
+    if (tooltip && threePrime) {
+      tooltip += " (3' end)"
+    }
+
+    return (
+      <span key={idx} className={`relative group inline-block w-[1ch] text-center ${className}`}>
+        {char}
+        {tooltip && (
+          <span className="pointer-events-none absolute bottom-full left-1/2 -translate-x-1/2 mb-1 hidden group-hover:block whitespace-nowrap rounded bg-gray-900 px-2 py-1 text-xs font-sans text-white shadow-lg z-10">
+            {tooltip}
+          </span>
+        )}
+      </span>
+    )
+  })
+
+  return (
+    <div>
+      <div className="whitespace-nowrap">
+        {positions}
+        <span className="ml-1 font-sans text-gray-400 dark:text-gray-500">({strand})</span>
+      </div>
+      {threePrimeMismatchCount > 0 ? (
+        <span className="mt-1 inline-block rounded px-1.5 py-0.5 text-[10px] font-sans font-medium bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300">
+          {threePrimeMismatchCount} of {mismatchCount} mismatch(es) in 3&apos; end
+        </span>
+      ) : mismatchCount > 0 ? (
+        <span className="mt-1 inline-block rounded px-1.5 py-0.5 text-[10px] font-sans font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300">
+          {mismatchCount} mismatch(es), 3&apos; end intact
+        </span>
+      ) : null}
+    </div>
+  )
+}
+
+// Legend explaining the colours used by PatternAlignment
+function PatternLegend() {
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-4 text-xs text-gray-600 dark:text-gray-400">
+      <span className="flex items-center gap-1">
+        <span className="inline-block w-3 h-3 rounded-sm bg-red-200 dark:bg-red-900/50" /> Mismatch
+      </span>
+      <span className="flex items-center gap-1">
+        <span className="inline-block w-3 h-3 rounded-sm bg-red-600" /> Mismatch in 3&apos; end
+      </span>
+      <span className="flex items-center gap-1">
+        <span className="inline-block w-3 h-3 rounded-sm bg-orange-200 dark:bg-orange-900/50" /> Gap
+      </span>
+      <span className="flex items-center gap-1">
+        <span className="inline-block w-3 h-3 rounded-sm bg-indigo-50 dark:bg-indigo-900/30 border border-indigo-200 dark:border-indigo-800" /> 3&apos; end region (last {THREE_PRIME_WINDOW} bases)
+      </span>
+      <span>Hover a highlighted base to see the substitution.</span>
+    </div>
+  )
+}
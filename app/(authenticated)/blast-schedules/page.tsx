@@ -0,0 +1,483 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import {
+  createBlastSchedule,
+  deleteBlastSchedule,
+  fetchBlastParameterPresets,
+  fetchBlastSchedules,
+  fetchUserAssays,
+  setBlastSchedulePaused,
+} from '@/lib/api'
+import { parseDateString, todayString } from '@/lib/dates'
+import { DEFAULT_BLAST_PARAMETERS } from '@/lib/jobs'
+import type {
+  BlastJobParameters,
+  BlastParameterPreset,
+  BlastSchedule,
+  ScheduleFrequency,
+  UserAssay,
+} from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+const FREQUENCY_LABELS: Record<ScheduleFrequency, string> = {
+  weekly: 'Every week',
+  monthly: 'Every month',
+  quarterly: 'Every 3 months',
+}
+
+export default function BlastSchedulesPage() {
+  const [schedules, setSchedules] = useState<BlastSchedule[]>([])
+  const [assays, setAssays] = useState<UserAssay[]>([])
+  const [presets, setPresets] = useState<BlastParameterPreset[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [formLoading, setFormLoading] = useState(false)
+  const [actionLoading, setActionLoading] = useState<number | null>(null)
+
+  // Form state
+  const [assayId, setAssayId] = useState('')
+  const [frequency, setFrequency] = useState<ScheduleFrequency>('monthly')
+  const [lookbackDays, setLookbackDays] = useState('90')
+  const [firstRunDate, setFirstRunDate] = useState(todayString())
+  const [presetId, setPresetId] = useState('') // empty = standard parameters
+  const [formError, setFormError] = useState<string | null>(null)
+
+  // Fetch schedules
+  const fetchSchedules = async () => {
+    try {
+      setError(null)
+      setSchedules(await fetchBlastSchedules())
+    } catch (err: any) {
+      setError(err.message || 'Failed to fetch schedules')
+      console.error('Error fetching schedules:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        const [assayData, presetData] = await Promise.all([fetchUserAssays(), fetchBlastParameterPresets()])
+        setAssays(assayData)
+        setPresets(presetData)
+        const defaultPreset = presetData.find((p) => p.is_default)
+        if (defaultPreset) {
+          setPresetId(String(defaultPreset.preset_id))
+        }
+      } catch (err: any) {
+        setError(err.message || 'Failed to fetch assays')
+        console.error('Error fetching assays:', err)
+      }
+      await fetchSchedules()
+    }
+    loadData()
+  }, [])
+
+  // Parameters stored with a new schedule
+  const getFormParameters = (): BlastJobParameters => {
+    const preset = presets.find((p) => p.preset_id === parseInt(presetId))
+    return preset ? preset.parameters : DEFAULT_BLAST_PARAMETERS
+  }
+
+  const resetForm = () => {
+    setAssayId('')
+    setFrequency('monthly')
+    setLookbackDays('90')
+    setFirstRunDate(todayString())
+    setFormError(null)
+  }
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setFormError(null)
+
+    if (!assayId) {
+      setFormError('Please select an assay')
+      return
+    }
+    const lookbackNum = parseInt(lookbackDays, 10)
+    if (isNaN(lookbackNum) || lookbackNum < 1) {
+      setFormError('Lookback days must be a positive integer')
+      return
+    }
+    if (!firstRunDate) {
+      setFormError('First run date is required')
+      return
+    }
+    if (firstRunDate < todayString()) {
+      setFormError('First run date must not be in the past')
+      return
+    }
+
+    setFormLoading(true)
+
+    try {
+      await createBlastSchedule({
+        assayId: parseInt(assayId),
+        frequency,
+        lookbackDays: lookbackNum,
+        firstRunDate,
+        parameters: getFormParameters(),
+      })
+
+      resetForm()
+      setShowForm(false)
+      await fetchSchedules()
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to create schedule')
+      console.error('Error creating schedule:', err)
+    } finally {
+      setFormLoading(false)
+    }
+  }
+
+  // Handle pause / resume
+  const handleTogglePaused = async (schedule: BlastSchedule) => {
+    setActionLoading(schedule.schedule_id)
+    try {
+      await setBlastSchedulePaused(schedule.schedule_id, !schedule.is_paused)
+      await fetchSchedules()
+    } catch (err: any) {
+      setError(err.message || 'Failed to update schedule')
+      console.error('Error updating schedule:', err)
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  // Handle delete
+  const handleDelete = async (schedule: BlastSchedule) => {
+    if (!confirm(`Are you sure you want to delete the schedule for ${schedule.assay_name}? Jobs that were already ordered are kept.`)) {
+      return
+    }
+
+    setActionLoading(schedule.schedule_id)
+    try {
+      await deleteBlastSchedule(schedule.schedule_id)
+      await fetchSchedules()
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete schedule')
+      console.error('Error deleting schedule:', err)
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  // Format date; run dates are plain YYYY-MM-DD and must not be shifted by the UTC offset
+  const formatDate = (dateString: string) => {
+    const date = parseDateString(dateString)
+    if (!date) return dateString
+    return date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    })
+  }
+
+  const formatParameters = (p: BlastJobParameters) =>
+    `Identity ${p.identity}%, Coverage ${p.coverage}%, Min Cover ${p.oligoMinCover}`
+
+  const formParameters = getFormParameters()
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            BLAST Schedules
+          </h1>
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+            Recurring BLAST aligner jobs. On every run a job is ordered for the sequences of the lookback period before the run date.
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            if (showForm) {
+              resetForm()
+            }
+            setShowForm(!showForm)
+          }}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg shadow-sm transition-colors whitespace-nowrap"
+        >
+          {showForm ? 'Cancel' : 'Add New Schedule'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      {showForm && (
+        <div className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+            Add New Schedule
+          </h2>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label
+                  htmlFor="assayId"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  Assay <span className="text-red-500">*</span>
+                </label>
+                <select
+                  id="assayId"
+                  value={assayId}
+                  onChange={(e) => setAssayId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                >
+                  <option value="">Select an assay...</option>
+                  {assays.map((assay) => (
+                    <option key={assay.assay_id} value={assay.assay_id}>
+                      {assay.assay_name}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  The assay needs a target taxid, a reference amplicon and at least one oligo when the schedule runs
+                </p>
+              </div>
+              <div>
+                <label
+                  htmlFor="frequency"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  Frequency <span className="text-red-500">*</span>
+                </label>
+                <select
+                  id="frequency"
+                  value={frequency}
+                  onChange={(e) => setFrequency(e.target.value as ScheduleFrequency)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {(Object.keys(FREQUENCY_LABELS) as ScheduleFrequency[]).map((f) => (
+                    <option key={f} value={f}>
+                      {FREQUENCY_LABELS[f]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label
+                  htmlFor="lookbackDays"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  Lookback Days <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="number"
+                  id="lookbackDays"
+                  value={lookbackDays}
+                  onChange={(e) => setLookbackDays(e.target.value)}
+                  min="1"
+                  step="1"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Each job covers the sequences of this many days before the run date
+                </p>
+              </div>
+              <div>
+                <label
+                  htmlFor="firstRunDate"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  First Run <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="date"
+                  id="firstRunDate"
+                  value={firstRunDate}
+                  min={todayString()}
+                  onChange={(e) => setFirstRunDate(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <label
+                htmlFor="presetId"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                Parameters
+              </label>
+              <select
+                id="presetId"
+                value={presetId}
+                onChange={(e) => setPresetId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Standard parameters</option>
+                {presets.map((preset) => (
+                  <option key={preset.preset_id} value={preset.preset_id}>
+                    Preset: {preset.preset_name}
+                    {preset.is_default ? ' (default)' : ''}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {formatParameters(formParameters)}, Match {formParameters.matchScore}, Mismatch{' '}
+                {formParameters.mismatchScore}, Gaps {formParameters.openGap}/{formParameters.extendGap}. The values are
+                copied into the schedule; later changes to the preset do not affect it.
+              </p>
+            </div>
+
+            {formError && (
+              <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                <p className="text-sm text-red-800 dark:text-red-200">{formError}</p>
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                type="submit"
+                disabled={formLoading}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg shadow-sm transition-colors"
+              >
+                {formLoading ? 'Creating...' : 'Create Schedule'}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setShowForm(false)
+                  resetForm()
+                }}
+                className="px-4 py-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+        {loading ? (
+          <div className="p-8 text-center">
+            <p className="text-gray-600 dark:text-gray-400">Loading schedules...</p>
+          </div>
+        ) : schedules.length === 0 ? (
+          <div className="p-8 text-center">
+            <p className="text-gray-600 dark:text-gray-400 mb-4">
+              No schedules found. Create a schedule to order BLAST jobs for an assay automatically.
+            </p>
+            <button
+              onClick={() => setShowForm(true)}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg shadow-sm transition-colors"
+            >
+              Add New Schedule
+            </button>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Assay Name
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Schedule
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Parameters
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Next Run
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Last Run
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {schedules.map((schedule) => (
+                  <tr key={schedule.schedule_id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                      {schedule.assay_name}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                      {FREQUENCY_LABELS[schedule.frequency] || schedule.frequency}, last {schedule.lookback_days} days
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">
+                      {formatParameters(schedule.parameters)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                      {schedule.is_paused ? (
+                        <span className="text-gray-400 dark:text-gray-500 italic">Paused</span>
+                      ) : (
+                        formatDate(schedule.next_run_at)
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                      {schedule.last_run_at ? (
+                        schedule.last_align_id !== null ? (
+                          <Link
+                            href={`/blast-results?job=${schedule.last_align_id}`}
+                            className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                          >
+                            {formatDate(schedule.last_run_at)}
+                          </Link>
+                        ) : (
+                          formatDate(schedule.last_run_at)
+                        )
+                      ) : (
+                        <span className="text-gray-400 dark:text-gray-500 italic">Never</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          schedule.is_paused
+                            ? 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-300'
+                            : 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300'
+                        }`}
+                      >
+                        {schedule.is_paused ? 'Paused' : 'Active'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-4">
+                      <button
+                        onClick={() => handleTogglePaused(schedule)}
+                        disabled={actionLoading === schedule.schedule_id}
+                        className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {schedule.is_paused ? 'Resume' : 'Pause'}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(schedule)}
+                        disabled={actionLoading === schedule.schedule_id}
+                        className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,315 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { fetchBlastAlignerJobs, fetchUserAssays } from '@/lib/api'
+import { collectOligoNames, isCompletedJob, sortJobsByDateRange, summarizeJob } from '@/lib/jobs'
+import type { CompletedJob, JobSummary } from '@/lib/jobs'
+import type { UserAssay } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+// Colours for the chart series; the overall alignment rate always uses the first one
+const SERIES_COLORS = ['#4f46e5', '#059669', '#d97706', '#dc2626', '#0891b2', '#7c3aed', '#db2777', '#65a30d']
+
+interface Series {
+  name: string
+  color: string
+  values: Array<number | null> // one value per job, null if the oligo was not part of the job
+}
+
+export default function BlastTrendsPage() {
+  const [jobs, setJobs] = useState<CompletedJob[]>([])
+  const [assays, setAssays] = useState<UserAssay[]>([])
+  const [selectedAssayId, setSelectedAssayId] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        setError(null)
+        const [jobData, assayData] = await Promise.all([fetchBlastAlignerJobs(), fetchUserAssays()])
+        const completed = jobData.filter(isCompletedJob)
+        setJobs(completed)
+        setAssays(assayData)
+
+        // Preselect the first assay that has completed jobs
+        const firstWithJobs = assayData.find((assay) =>
+          completed.some((job) => job.alignjob_assay_id === assay.assay_id)
+        )
+        setSelectedAssayId(firstWithJobs ? firstWithJobs.assay_id : null)
+      } catch (err: any) {
+        setError(err.message || 'Failed to fetch BLAST jobs')
+        console.error('Error fetching BLAST jobs:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadData()
+  }, [])
+
+  // Only assays with at least one completed job can be plotted
+  const assaysWithJobs = assays.filter((assay) =>
+    jobs.some((job) => job.alignjob_assay_id === assay.assay_id)
+  )
+
+  const assayJobs = sortJobsByDateRange(jobs.filter((job) => job.alignjob_assay_id === selectedAssayId))
+  const summaries = assayJobs.map(summarizeJob)
+  const series: Series[] = [
+    {
+      name: 'Alignment rate',
+      color: SERIES_COLORS[0],
+      values: summaries.map((s) => s.alignmentRate),
+    },
+    ...collectOligoNames(summaries).map((name, idx) => ({
+      name,
+      // Index 0 is reserved for the alignment rate, also when the colours wrap around
+      color: SERIES_COLORS[(idx % (SERIES_COLORS.length - 1)) + 1],
+      values: summaries.map((s) => (name in s.oligoMatchRates ? s.oligoMatchRates[name] : null)),
+    })),
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+          BLAST Trends
+        </h1>
+        <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+          Alignment rate and per-oligo match rate of all completed BLAST jobs of an assay, ordered by date range.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+        {loading ? (
+          <p className="text-center text-gray-600 dark:text-gray-400">Loading BLAST jobs...</p>
+        ) : assaysWithJobs.length === 0 ? (
+          <p className="text-center text-gray-600 dark:text-gray-400">
+            No completed BLAST jobs found. Order jobs in the BLAST planner to see trends here.
+          </p>
+        ) : (
+          <>
+            <div className="mb-6 max-w-md">
+              <label
+                htmlFor="trendAssay"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                Assay
+              </label>
+              <select
+                id="trendAssay"
+                value={selectedAssayId ?? ''}
+                onChange={(e) => setSelectedAssayId(e.target.value ? parseInt(e.target.value) : null)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {assaysWithJobs.map((assay) => (
+                  <option key={assay.assay_id} value={assay.assay_id}>
+                    {assay.assay_name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {summaries.length > 0 && <TrendChart key={selectedAssayId} summaries={summaries} series={series} />}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Chart layout in SVG user units
+const CHART_WIDTH = 800
+const CHART_HEIGHT = 320
+const PADDING = { top: 16, right: 24, bottom: 48, left: 48 }
+
+interface TrendChartProps {
+  summaries: JobSummary[]
+  series: Series[]
+}
+
+// Line chart of rates (0-100 %) over time; x is the end of each job's date range
+function TrendChart({ summaries, series }: TrendChartProps) {
+  const [activeIndex, setActiveIndex] = useState<number | null>(null)
+  const [hiddenSeries, setHiddenSeries] = useState<Set<string>>(new Set())
+
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom
+
+  const times = summaries.map((s) => new Date(s.dateTo).getTime())
+  const minTime = Math.min(...times)
+  const maxTime = Math.max(...times)
+  const xFor = (idx: number) =>
+    maxTime === minTime
+      ? PADDING.left + plotWidth / 2
+      : PADDING.left + ((times[idx] - minTime) / (maxTime - minTime)) * plotWidth
+  const yFor = (value: number) => PADDING.top + plotHeight - (Math.min(Math.max(value, 0), 100) / 100) * plotHeight
+
+  const toggleSeries = (name: string) => {
+    setHiddenSeries((prev) => {
+      const newSet = new Set(prev)
+      if (newSet.has(name)) {
+        newSet.delete(name)
+      } else {
+        newSet.add(name)
+      }
+      return newSet
+    })
+  }
+
+  const visibleSeries = series.filter((s) => !hiddenSeries.has(s.name))
+  const active = activeIndex !== null ? summaries[activeIndex] : null
+
+  return (
+    <div>
+      {/* Legend - click to show/hide a series */}
+      <div className="mb-3 flex flex-wrap gap-3 text-sm">
+        {series.map((s) => (
+          <button
+            key={s.name}
+            onClick={() => toggleSeries(s.name)}
+            className={`flex items-center gap-1.5 px-2 py-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 ${
+              hiddenSeries.has(s.name) ? 'opacity-40' : ''
+            }`}
+          >
+            <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: s.color }} />
+            <span className="text-gray-700 dark:text-gray-300">{s.name}</span>
+          </button>
+        ))}
+      </div>
+
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-auto text-gray-500 dark:text-gray-400"
+        onMouseLeave={() => setActiveIndex(null)}
+      >
+        {/* Y axis grid and labels */}
+        {[0, 25, 50, 75, 100].map((tick) => (
+          <g key={tick}>
+            <line
+              x1={PADDING.left}
+              x2={CHART_WIDTH - PADDING.right}
+              y1={yFor(tick)}
+              y2={yFor(tick)}
+              stroke="currentColor"
+              strokeOpacity={0.2}
+            />
+            <text x={PADDING.left - 8} y={yFor(tick) + 4} textAnchor="end" fontSize={11} fill="currentColor">
+              {tick}%
+            </text>
+          </g>
+        ))}
+
+        {/* X axis labels */}
+        {summaries.map((s, idx) => (
+          <text
+            key={s.alignId}
+            x={xFor(idx)}
+            y={CHART_HEIGHT - PADDING.bottom + 18}
+            textAnchor="middle"
+            fontSize={11}
+            fill="currentColor"
+          >
+            {s.dateTo}
+          </text>
+        ))}
+
+        {/* Active job marker */}
+        {activeIndex !== null && (
+          <line
+            x1={xFor(activeIndex)}
+            x2={xFor(activeIndex)}
+            y1={PADDING.top}
+            y2={PADDING.top + plotHeight}
+            stroke="currentColor"
+            strokeDasharray="4 4"
+          />
+        )}
+
+        {/* Series lines and points; gaps where an oligo was not part of a job */}
+        {visibleSeries.map((s) => {
+          const path = s.values
+            .map((value, idx) => {
+              if (value === null) return null
+              const previousMissing = idx === 0 || s.values[idx - 1] === null
+              return `${previousMissing ? 'M' : 'L'}${xFor(idx)},${yFor(value)}`
+            })
+            .filter(Boolean)
+            .join(' ')
+          return (
+            <g key={s.name}>
+              <path d={path} fill="none" stroke={s.color} strokeWidth={2} />
+              {s.values.map((value, idx) =>
+                value === null ? null : (
+                  <circle
+                    key={idx}
+                    cx={xFor(idx)}
+                    cy={yFor(value)}
+                    r={activeIndex === idx ? 5 : 3.5}
+                    fill={s.color}
+                  />
+                )
+              )}
+            </g>
+          )
+        })}
+
+        {/* Hover targets, one vertical band per job */}
+        {summaries.map((s, idx) => (
+          <rect
+            key={s.alignId}
+            x={xFor(idx) - 12}
+            y={PADDING.top}
+            width={24}
+            height={plotHeight}
+            fill="transparent"
+            className="cursor-pointer"
+            onMouseEnter={() => setActiveIndex(idx)}
+            onClick={() => setActiveIndex(idx)}
+          />
+        ))}
+      </svg>
+
+      {/* Details of the hovered job */}
+      <div className="mt-4 min-h-[7rem] rounded-lg bg-gray-50 dark:bg-gray-700 p-4">
+        {active && activeIndex !== null ? (
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <p className="text-sm font-medium text-gray-900 dark:text-white">
+                Job {active.alignId} | {active.dateFrom} - {active.dateTo}
+              </p>
+              <Link
+                href={`/blast-results?job=${active.alignId}`}
+                className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+              >
+                Open job result →
+              </Link>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+              {series.map((s) => (
+                <div key={s.name} className="flex items-center gap-1.5">
+                  <span className="inline-block w-2.5 h-2.5 rounded-full" style={{ backgroundColor: s.color }} />
+                  <span className="text-gray-700 dark:text-gray-300">{s.name}:</span>
+                  <span className="font-medium text-gray-900 dark:text-white">
+                    {s.values[activeIndex] !== null ? `${s.values[activeIndex]}%` : 'N/A'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Hover over a job in the chart to see its details.
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -2,18 +2,21 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { supabase } from '@/lib/supabase'
+import {
+  fetchDashboardUpdate,
+  fetchUserAssays,
+  fetchUserNameInstitution,
+  fetchUserOligos,
+  orderDashboardJob,
+  syncDashboardEntries,
+} from '@/lib/api'
+import type { DashboardEntry as DashboardEntryRow, UserSettings } from '@/lib/types'
 
 export const dynamic = 'force-dynamic'
 
 // Type definitions
-interface DashboardEntry {
-  entry_id: number
-  assay_id: number
+interface DashboardEntry extends DashboardEntryRow {
   assay_name: string
-  lookback_days: number | null
-  last_checked: string | null
-  nuccor_entries_found: number | null
-  nuccor_queue_entry: number | null
 }
 
 interface UserInfo {
@@ -53,32 +56,18 @@ export default function DashboardPage() {
       const userEmail = user?.email || null
 
       // Fetch name and institution from database
-      const { data, error: fetchError } = await supabase.rpc('fetch_user_name_institution')
-
-      if (fetchError) {
-        console.error('Error fetching user settings:', fetchError)
+      let settings: UserSettings | null = null
+      try {
+        settings = await fetchUserNameInstitution()
+      } catch (settingsError) {
         // Still set email even if settings fetch fails
-        setUserInfo({
-          email: userEmail,
-          displayName: null,
-          institution: null,
-        })
-        return
-      }
-
-      // The function returns an array with one row, or empty array if no entry exists
-      let displayName: string | null = null
-      let institution: string | null = null
-
-      if (data && Array.isArray(data) && data.length > 0) {
-        displayName = data[0].user_name || null
-        institution = data[0].user_institution || null
+        console.error('Error fetching user settings:', settingsError)
       }
 
       setUserInfo({
         email: userEmail,
-        displayName,
-        institution,
+        displayName: settings?.user_name || null,
+        institution: settings?.user_institution || null,
       })
     } catch (err: any) {
       console.error('Error fetching user info:', err)
@@ -95,12 +84,8 @@ export default function DashboardPage() {
   // Fetch assays count
   const fetchAssaysCount = async () => {
     try {
-      const { data, error: fetchError } = await supabase.rpc('fetch_user_assays')
-      if (fetchError) {
-        console.error('Error fetching assays:', fetchError)
-        return
-      }
-      setAssaysCount(Array.isArray(data) ? data.length : 0)
+      const assays = await fetchUserAssays()
+      setAssaysCount(assays.length)
     } catch (err: any) {
       console.error('Error fetching assays count:', err)
     }
@@ -109,12 +94,8 @@ export default function DashboardPage() {
   // Fetch oligos count
   const fetchOligosCount = async () => {
     try {
-      const { data, error: fetchError } = await supabase.rpc('fetch_user_oligos')
-      if (fetchError) {
-        console.error('Error fetching oligos:', fetchError)
-        return
-      }
-      setOligosCount(Array.isArray(data) ? data.length : 0)
+      const oligos = await fetchUserOligos()
+      setOligosCount(oligos.length)
     } catch (err: any) {
       console.error('Error fetching oligos count:', err)
     }
@@ -132,50 +113,27 @@ export default function DashboardPage() {
       
       // Step 1: Call fetch_dashboard_entries first to sync the dashboard_entries table
       // This ensures assays are entered and orphaned entries are deleted
-      const syncResult = await supabase.rpc('fetch_dashboard_entries')
-      
-      if (syncResult.error) {
-        throw syncResult.error
-      }
+      await syncDashboardEntries()
 
       // Step 2: Fetch dashboard entries with all columns (including nuccor_queue_entry)
       // and assays in parallel
-      const [entriesResult, assaysResult] = await Promise.all([
-        supabase.rpc('fetch_dashboard_update'),
-        supabase.rpc('fetch_user_assays')
+      const [entries, assays] = await Promise.all([
+        fetchDashboardUpdate(),
+        fetchUserAssays(),
       ])
 
-      if (entriesResult.error) {
-        throw entriesResult.error
-      }
-
-      if (assaysResult.error) {
-        throw assaysResult.error
-      }
-
       // Create a map of assay_id to assay_name
       const assayMap = new Map<number, string>()
-      if (assaysResult.data && Array.isArray(assaysResult.data)) {
-        assaysResult.data.forEach((assay: any) => {
-          assayMap.set(Number(assay.assay_id), assay.assay_name || 'Unknown')
-        })
-      }
+      assays.forEach((assay) => {
+        assayMap.set(assay.assay_id, assay.assay_name || 'Unknown')
+      })
 
-      // Map the response to our DashboardEntry interface
-      if (entriesResult.data && Array.isArray(entriesResult.data)) {
-        const mappedData = entriesResult.data.map((item: any) => ({
-          entry_id: Number(item.entry_id),
-          assay_id: Number(item.assay_id),
-          assay_name: assayMap.get(Number(item.assay_id)) || 'Unknown',
-          lookback_days: item.lookback_days ? Number(item.lookback_days) : null,
-          last_checked: item.last_checked || null,
-          nuccor_entries_found: item.nuccor_entries_found ? Number(item.nuccor_entries_found) : null,
-          nuccor_queue_entry: item.nuccor_queue_entry ? Number(item.nuccor_queue_entry) : null,
+      setDashboardEntries(
+        entries.map((entry) => ({
+          ...entry,
+          assay_name: assayMap.get(entry.assay_id) || 'Unknown',
         }))
-        setDashboardEntries(mappedData)
-      } else {
-        setDashboardEntries([])
-      }
+      )
     } catch (err: any) {
       setError(err.message || 'Failed to fetch dashboard entries')
       console.error('Error fetching dashboard entries:', err)
@@ -293,20 +251,16 @@ export default function DashboardPage() {
 
     try {
       // Call order_dashboard_job for each selected entry
-      const promises = validEntries.map((entryId) =>
-        supabase.rpc('order_dashboard_job', {
-          p_job_type: 1, // Currently there is only one job. Has to be amended later
-          p_entry_id: entryId,
-          p_lookback_days: lookbackDaysNum,
-        })
+      const results = await Promise.allSettled(
+        validEntries.map((entryId) => orderDashboardJob(entryId, lookbackDaysNum))
       )
 
-      const results = await Promise.all(promises)
-
       // Check for errors
-      const errors = results.filter((result) => result.error)
+      const errors = results.filter(
+        (result): result is PromiseRejectedResult => result.status === 'rejected'
+      )
       if (errors.length > 0) {
-        const errorMessages = errors.map((e) => e.error?.message || 'Unknown error').join('; ')
+        const errorMessages = errors.map((e) => e.reason?.message || 'Unknown error').join('; ')
         throw new Error(`Failed to queue some jobs: ${errorMessages}`)
       }
 
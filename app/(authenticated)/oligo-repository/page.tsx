@@ -1,27 +1,61 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { supabase } from '@/lib/supabase'
+import { useState, useEffect, useMemo } from 'react'
+import { useSearchParams } from 'next/navigation'
+import {
+  createUserOligo,
+  deleteUserOligo,
+  fetchBlastAlignerJobs,
+  fetchOligoHistory,
+  fetchUserAssays,
+  fetchUserOligos,
+  oligoChangeAssay,
+  oligoChangeRole,
+  updateUserOligo,
+} from '@/lib/api'
+import { isCompletedJob } from '@/lib/jobs'
+import {
+  OLIGO_ROLES,
+  OLIGO_ROLE_LABELS,
+  OLIGO_STRAND_LABELS,
+  defaultStrandForRole,
+} from '@/lib/oligoRoles'
+import { DEFAULT_REACTION_CONDITIONS, analyzeOligo, formatTm } from '@/lib/sequence'
+import type { OligoAnalysis, ReactionConditions, SecondaryStructure } from '@/lib/sequence'
+import { SEQUENCE_FILE_ACCEPT, parseSequenceFile, readSequenceFile } from '@/lib/sequenceFile'
+import type { Oligo, OligoHistoryEntry, OligoRole, OligoStrand, UserAssay } from '@/lib/types'
 
 export const dynamic = 'force-dynamic'
 
-// Type definitions
-interface Oligo {
-  oligo_id: number
-  sequence_name: string
-  dna_sequence: string
-  created_at: string
-  assay_id: number | null
+const CONDITION_FIELDS: Array<{ key: keyof ReactionConditions; label: string; step: string }> = [
+  { key: 'sodiumMm', label: 'Na+ (mM)', step: '1' },
+  { key: 'magnesiumMm', label: 'Mg2+ (mM)', step: '0.1' },
+  { key: 'dntpMm', label: 'dNTPs (mM)', step: '0.1' },
+  { key: 'oligoNm', label: 'Oligo (nM)', step: '10' },
+]
+
+type ConditionInputs = Record<keyof ReactionConditions, string>
+
+function toConditionInputs(conditions: ReactionConditions): ConditionInputs {
+  return {
+    sodiumMm: String(conditions.sodiumMm),
+    magnesiumMm: String(conditions.magnesiumMm),
+    dntpMm: String(conditions.dntpMm),
+    oligoNm: String(conditions.oligoNm),
+  }
 }
 
-interface Assay {
-  assay_id: number
-  assay_name: string
+// Missing structures and structures that are not more stable than the unfolded oligo are shown
+// as "None"; "n/a" means the oligo could not be analysed (invalid characters or too many ambiguous bases)
+function formatDeltaG(structure: SecondaryStructure | null, analysis: OligoAnalysis): string {
+  if (analysis.invalidSequence || analysis.tooManyVariants) return 'n/a'
+  return structure && structure.deltaG < 0 ? `${structure.deltaG.toFixed(1)} kcal/mol` : 'None'
 }
 
 export default function OligoRepositoryPage() {
+  const searchParams = useSearchParams()
   const [oligos, setOligos] = useState<Oligo[]>([])
-  const [assays, setAssays] = useState<Assay[]>([])
+  const [assays, setAssays] = useState<UserAssay[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [showForm, setShowForm] = useState(false)
@@ -32,13 +66,29 @@ export default function OligoRepositoryPage() {
   const [bulkDeleteLoading, setBulkDeleteLoading] = useState(false)
   const [bulkChangeAssayLoading, setBulkChangeAssayLoading] = useState(false)
   const [bulkAssayId, setBulkAssayId] = useState<number | null>(null)
+  const [roleSaving, setRoleSaving] = useState<number | null>(null)
 
   // Form state
   const [sequenceName, setSequenceName] = useState('')
   const [dnaSequence, setDnaSequence] = useState('')
   const [assayId, setAssayId] = useState<number | null>(null)
+  const [role, setRole] = useState<OligoRole | null>(null)
+  const [strand, setStrand] = useState<OligoStrand | null>(null)
   const [formError, setFormError] = useState<string | null>(null)
 
+  // Sequence analysis
+  const [conditions, setConditions] = useState<ReactionConditions>(DEFAULT_REACTION_CONDITIONS)
+  // Raw field values, so a field can be cleared while typing; only valid values reach `conditions`
+  const [conditionInputs, setConditionInputs] = useState<ConditionInputs>(toConditionInputs(DEFAULT_REACTION_CONDITIONS))
+  const [showConditions, setShowConditions] = useState(false)
+  const [detailOligo, setDetailOligo] = useState<Oligo | null>(null)
+
+  const analyses = useMemo(() => {
+    const map = new Map<number, OligoAnalysis>()
+    oligos.forEach((oligo) => map.set(oligo.oligo_id, analyzeOligo(oligo.dna_sequence, conditions)))
+    return map
+  }, [oligos, conditions])
+
   // Import state
   const [showImportForm, setShowImportForm] = useState(false)
   const [importFile, setImportFile] = useState<File | null>(null)
@@ -55,13 +105,7 @@ export default function OligoRepositoryPage() {
   const fetchOligos = async () => {
     try {
       setError(null)
-      const { data, error: fetchError } = await supabase.rpc('fetch_user_oligos')
-
-      if (fetchError) {
-        throw fetchError
-      }
-
-      setOligos(data || [])
+      setOligos(await fetchUserOligos())
     } catch (err: any) {
       setError(err.message || 'Failed to fetch oligos')
       console.error('Error fetching oligos:', err)
@@ -73,24 +117,7 @@ export default function OligoRepositoryPage() {
   // Fetch assays using the same RPC function as assay repository
   const fetchAssays = async () => {
     try {
-      const { data, error: fetchError } = await supabase.rpc('fetch_user_assays')
-
-      if (fetchError) {
-        console.error('Error fetching assays:', fetchError)
-        // Don't throw - assays are optional
-        return
-      }
-
-      // Map the response to our Assay interface
-      if (data && Array.isArray(data)) {
-        const mappedData = data.map((item: any) => ({
-          assay_id: Number(item.assay_id),
-          assay_name: item.assay_name,
-        }))
-        setAssays(mappedData)
-      } else {
-        setAssays([])
-      }
+      setAssays(await fetchUserAssays())
     } catch (err) {
       console.error('Error fetching assays:', err)
       // Assays are optional, so we continue even if this fails
@@ -102,6 +129,16 @@ export default function OligoRepositoryPage() {
     fetchAssays()
   }, [])
 
+  // ?assay=<id> opens the add form for that assay (linked from the BLAST planner)
+  useEffect(() => {
+    const assayParam = searchParams?.get('assay')
+    const id = assayParam ? parseInt(assayParam, 10) : NaN
+    if (!isNaN(id)) {
+      setAssayId(id)
+      setShowForm(true)
+    }
+  }, [searchParams])
+
   // Validate DNA sequence
   const validateDnaSequence = (sequence: string): string | null => {
     // Remove spaces and convert to uppercase
@@ -116,50 +153,11 @@ export default function OligoRepositoryPage() {
     return null
   }
 
-  // Parse FASTA file
-  const parseFastaFile = (content: string): Array<{ name: string; sequence: string }> => {
-    const sequences: Array<{ name: string; sequence: string }> = []
-    const lines = content.split('\n')
-    let currentName = ''
-    let currentSequence = ''
-
-    for (const line of lines) {
-      const trimmed = line.trim()
-      if (!trimmed) continue
-
-      if (trimmed.startsWith('>')) {
-        // Save previous sequence if exists
-        if (currentName && currentSequence) {
-          sequences.push({
-            name: currentName,
-            sequence: currentSequence,
-          })
-        }
-        // Start new sequence - remove '>' and take everything up to first space or newline
-        currentName = trimmed.substring(1).split(/\s+/)[0] || `Sequence_${sequences.length + 1}`
-        currentSequence = ''
-      } else {
-        // Append to current sequence
-        currentSequence += trimmed
-      }
-    }
-
-    // Don't forget the last sequence
-    if (currentName && currentSequence) {
-      sequences.push({
-        name: currentName,
-        sequence: currentSequence,
-      })
-    }
-
-    return sequences
-  }
-
   // Handle file import
   const handleFileImport = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!importFile) {
-      setFormError('Please select a FASTA file')
+      setFormError('Please select a sequence file')
       return
     }
 
@@ -168,19 +166,11 @@ export default function OligoRepositoryPage() {
     setImportProgress({ total: 0, success: 0, failed: 0, errors: [] })
 
     try {
-      // Read file content
-      const fileContent = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader()
-        reader.onload = (e) => resolve(e.target?.result as string)
-        reader.onerror = reject
-        reader.readAsText(importFile)
-      })
-
-      // Parse FASTA file
-      const sequences = parseFastaFile(fileContent)
+      // Read and parse file content
+      const { records: sequences } = parseSequenceFile(await readSequenceFile(importFile), importFile.name)
 
       if (sequences.length === 0) {
-        setFormError('No sequences found in FASTA file')
+        setFormError('No sequences found in file')
         setImportLoading(false)
         return
       }
@@ -202,18 +192,16 @@ export default function OligoRepositoryPage() {
             throw new Error(validationError)
           }
 
-          // Create oligo
-          const { error: createError } = await supabase.rpc('create_user_oligo', {
-            p_sequence_name: seq.name.trim() || `Sequence_${successCount + failedCount + 1}`,
-            p_dna_sequence: cleanedSequence,
-            p_assay_id: importAssayId !== null && importAssayId !== undefined ? importAssayId : null,
-            p_panel_id: null,
+          // Create oligo without role and strand; they are set explicitly in the table
+          const name = seq.name.trim() || `Sequence_${successCount + failedCount + 1}`
+          await createUserOligo({
+            sequenceName: name,
+            dnaSequence: cleanedSequence,
+            assayId: importAssayId !== null && importAssayId !== undefined ? importAssayId : null,
+            role: null,
+            strand: null,
           })
 
-          if (createError) {
-            throw createError
-          }
-
           successCount++
         } catch (err: any) {
           failedCount++
@@ -243,8 +231,8 @@ export default function OligoRepositoryPage() {
         setImportProgress(null)
       }, 3000)
     } catch (err: any) {
-      setFormError(err.message || 'Failed to import FASTA file')
-      console.error('Error importing FASTA file:', err)
+      setFormError(err.message || 'Failed to import sequence file')
+      console.error('Error importing sequence file:', err)
     } finally {
       setImportLoading(false)
     }
@@ -272,21 +260,20 @@ export default function OligoRepositoryPage() {
     setFormLoading(true)
 
     try {
-      const { data, error: createError } = await supabase.rpc('create_user_oligo', {
-        p_sequence_name: sequenceName.trim(),
-        p_dna_sequence: cleanedSequence,
-        p_assay_id: assayId !== null && assayId !== undefined ? assayId : null,
-        p_panel_id: null,
+      await createUserOligo({
+        sequenceName: sequenceName.trim(),
+        dnaSequence: cleanedSequence,
+        assayId: assayId !== null && assayId !== undefined ? assayId : null,
+        role,
+        strand,
       })
 
-      if (createError) {
-        throw createError
-      }
-
       // Reset form
       setSequenceName('')
       setDnaSequence('')
       setAssayId(null)
+      setRole(null)
+      setStrand(null)
       setShowForm(false)
       setFormError(null)
 
@@ -343,13 +330,7 @@ export default function OligoRepositoryPage() {
       // Delete each oligo
       for (const oligoId of oligoIds) {
         try {
-          const { error: deleteError } = await supabase.rpc('delete_user_oligo', {
-            p_oligo_id: oligoId,
-          })
-
-          if (deleteError) {
-            errors.push(`Oligo ${oligoId}: ${deleteError.message}`)
-          }
+          await deleteUserOligo(oligoId)
         } catch (err: any) {
           errors.push(`Oligo ${oligoId}: ${err.message || 'Unknown error'}`)
         }
@@ -387,14 +368,7 @@ export default function OligoRepositoryPage() {
       // Change assay for each oligo
       for (const oligoId of oligoIds) {
         try {
-          const { error: changeError } = await supabase.rpc('oligo_change_assay', {
-            p_oligo_id: oligoId,
-            p_assay_id: bulkAssayId,
-          })
-
-          if (changeError) {
-            errors.push(`Oligo ${oligoId}: ${changeError.message}`)
-          }
+          await oligoChangeAssay(oligoId, bulkAssayId)
         } catch (err: any) {
           errors.push(`Oligo ${oligoId}: ${err.message || 'Unknown error'}`)
         }
@@ -418,6 +392,45 @@ export default function OligoRepositoryPage() {
     }
   }
 
+  // Change role and strand of a single oligo
+  const handleRoleChange = async (oligo: Oligo, newRole: OligoRole | null, newStrand: OligoStrand | null) => {
+    setRoleSaving(oligo.oligo_id)
+    setError(null)
+    try {
+      const updated = await oligoChangeRole(oligo.oligo_id, newRole, newStrand)
+      setOligos((prev) => prev.map((o) => (o.oligo_id === updated.oligo_id ? updated : o)))
+    } catch (err: any) {
+      setError(err.message || 'Failed to change oligo role')
+      console.error('Error changing oligo role:', err)
+    } finally {
+      setRoleSaving(null)
+    }
+  }
+
+  // Save an edit of name and sequence from the detail panel; returns an error message or null
+  const handleUpdateOligo = async (oligo: Oligo, name: string, sequence: string): Promise<string | null> => {
+    if (!name.trim()) {
+      return 'Sequence name is required'
+    }
+    const cleanedSequence = sequence.replace(/\s/g, '').toUpperCase()
+    const validationError = validateDnaSequence(cleanedSequence)
+    if (validationError) {
+      return validationError
+    }
+    try {
+      const updated = await updateUserOligo(oligo.oligo_id, {
+        sequenceName: name.trim(),
+        dnaSequence: cleanedSequence,
+      })
+      setOligos((prev) => prev.map((o) => (o.oligo_id === updated.oligo_id ? updated : o)))
+      setDetailOligo(updated)
+      return null
+    } catch (err: any) {
+      console.error('Error updating oligo:', err)
+      return err.message || 'Failed to update oligo'
+    }
+  }
+
   // Format date
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -444,6 +457,20 @@ export default function OligoRepositoryPage() {
     return assay ? assay.assay_name : 'Unknown'
   }
 
+  const isValidCondition = (value: string) => value.trim() !== '' && !isNaN(Number(value)) && Number(value) >= 0
+
+  const handleConditionChange = (key: keyof ReactionConditions, value: string) => {
+    setConditionInputs((prev) => ({ ...prev, [key]: value }))
+    if (isValidCondition(value)) {
+      setConditions((prev) => ({ ...prev, [key]: Number(value) }))
+    }
+  }
+
+  const handleResetConditions = () => {
+    setConditions(DEFAULT_REACTION_CONDITIONS)
+    setConditionInputs(toConditionInputs(DEFAULT_REACTION_CONDITIONS))
+  }
+
   return (
     <div>
       <div className="flex justify-between items-center mb-6">
@@ -451,11 +478,17 @@ export default function OligoRepositoryPage() {
           Oligo Repository
         </h1>
         <div className="flex gap-3">
+          <button
+            onClick={() => setShowConditions(!showConditions)}
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg shadow-sm transition-colors"
+          >
+            {showConditions ? 'Hide Conditions' : 'Reaction Conditions'}
+          </button>
           <button
             onClick={() => setShowImportForm(!showImportForm)}
             className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg shadow-sm transition-colors"
           >
-            {showImportForm ? 'Cancel Import' : 'Import from FASTA'}
+            {showImportForm ? 'Cancel Import' : 'Import from File'}
           </button>
           <button
             onClick={() => setShowForm(!showForm)}
@@ -472,6 +505,55 @@ export default function OligoRepositoryPage() {
         </div>
       )}
 
+      {showConditions && (
+        <div className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+              Reaction Conditions
+            </h2>
+            <button
+              onClick={handleResetConditions}
+              className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              Reset to defaults
+            </button>
+          </div>
+          <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+            Used for the melting temperature and ΔG values of all oligos. ΔG values are given at 37 °C.
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {CONDITION_FIELDS.map((field) => (
+              <div key={field.key}>
+                <label
+                  htmlFor={`condition-${field.key}`}
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                >
+                  {field.label}
+                </label>
+                <input
+                  type="number"
+                  id={`condition-${field.key}`}
+                  value={conditionInputs[field.key]}
+                  onChange={(e) => handleConditionChange(field.key, e.target.value)}
+                  step={field.step}
+                  min="0"
+                  className={`w-full px-4 py-2 border rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                    isValidCondition(conditionInputs[field.key])
+                      ? 'border-gray-300 dark:border-gray-600'
+                      : 'border-red-500 dark:border-red-500'
+                  }`}
+                />
+                {!isValidCondition(conditionInputs[field.key]) && (
+                  <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+                    Enter a number ≥ 0; {conditions[field.key]} is used until then
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {showForm && (
         <div className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow p-6">
           <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
@@ -539,6 +621,55 @@ export default function OligoRepositoryPage() {
               </select>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label
+                  htmlFor="role"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  Role (Optional)
+                </label>
+                <select
+                  id="role"
+                  value={role || ''}
+                  onChange={(e) => {
+                    const newRole = (e.target.value || null) as OligoRole | null
+                    setRole(newRole)
+                    setStrand(defaultStrandForRole(newRole))
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Not set</option>
+                  {OLIGO_ROLES.map((r) => (
+                    <option key={r} value={r}>
+                      {OLIGO_ROLE_LABELS[r]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label
+                  htmlFor="strand"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  Strand (Optional)
+                </label>
+                <select
+                  id="strand"
+                  value={strand || ''}
+                  onChange={(e) => setStrand((e.target.value || null) as OligoStrand | null)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Not set</option>
+                  <option value="sense">{OLIGO_STRAND_LABELS.sense}</option>
+                  <option value="antisense">{OLIGO_STRAND_LABELS.antisense}</option>
+                </select>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Strand of the reference amplicon the oligo sequence is identical to
+                </p>
+              </div>
+            </div>
+
             {formError && (
               <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
                 <p className="text-sm text-red-800 dark:text-red-200">{formError}</p>
@@ -574,26 +705,26 @@ export default function OligoRepositoryPage() {
       {showImportForm && (
         <div className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow p-6">
           <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
-            Import Oligos from FASTA File
+            Import Oligos from Sequence File
           </h2>
           <form onSubmit={handleFileImport} className="space-y-4">
             <div>
               <label
-                htmlFor="fastaFile"
+                htmlFor="sequenceFile"
                 className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
               >
-                FASTA File <span className="text-red-500">*</span>
+                Sequence File <span className="text-red-500">*</span>
               </label>
               <input
                 type="file"
-                id="fastaFile"
-                accept=".fasta,.fa,.fas,.fna"
+                id="sequenceFile"
+                accept={SEQUENCE_FILE_ACCEPT}
                 onChange={(e) => setImportFile(e.target.files?.[0] || null)}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-green-500 focus:border-transparent"
                 required
               />
               <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                Select a FASTA file (.fasta, .fa, .fas, or .fna). Each sequence will be imported with its header as the sequence name.
+                Select a FASTA, GenBank, tab-separated (name, sequence) or plain-text/SnapGene .txt file. Each sequence will be imported with its name as the sequence name.
               </p>
             </div>
 
@@ -774,6 +905,24 @@ export default function OligoRepositoryPage() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                       DNA Sequence
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Role / Strand
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Length
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      GC %
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Tm (°C)
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Hairpin ΔG
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Self-Dimer ΔG
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                       Assay
                     </th>
@@ -783,42 +932,411 @@ export default function OligoRepositoryPage() {
                   </tr>
                 </thead>
                 <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-                  {oligos.map((oligo) => (
-                    <tr 
-                      key={oligo.oligo_id} 
-                      className={`hover:bg-gray-50 dark:hover:bg-gray-700 ${selectedOligos.has(oligo.oligo_id) ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
-                    >
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <input
-                          type="checkbox"
-                          checked={selectedOligos.has(oligo.oligo_id)}
-                          onChange={() => handleToggleSelect(oligo.oligo_id)}
-                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                        />
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
-                        {oligo.sequence_name}
+                  {oligos.map((oligo) => {
+                    const analysis = analyses.get(oligo.oligo_id)
+                    return (
+                      <tr 
+                        key={oligo.oligo_id} 
+                        className={`hover:bg-gray-50 dark:hover:bg-gray-700 ${selectedOligos.has(oligo.oligo_id) ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+                      >
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <input
+                            type="checkbox"
+                            checked={selectedOligos.has(oligo.oligo_id)}
+                            onChange={() => handleToggleSelect(oligo.oligo_id)}
+                            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                          <button
+                            onClick={() => setDetailOligo(oligo)}
+                            className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                          >
+                            {oligo.sequence_name}
+                          </button>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400 font-mono">
+                          <span title={oligo.dna_sequence}>
+                            {truncateSequence(oligo.dna_sequence)}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          <div className="flex gap-2">
+                            <select
+                              aria-label={`Role of ${oligo.sequence_name}`}
+                              value={oligo.role || ''}
+                              onChange={(e) => {
+                                const newRole = (e.target.value || null) as OligoRole | null
+                                // Same as the add form: a new role resets the strand to the role's default
+                                handleRoleChange(oligo, newRole, defaultStrandForRole(newRole))
+                              }}
+                              disabled={roleSaving === oligo.oligo_id}
+                              className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+                            >
+                              <option value="">Not set</option>
+                              {OLIGO_ROLES.map((r) => (
+                                <option key={r} value={r}>
+                                  {OLIGO_ROLE_LABELS[r]}
+                                </option>
+                              ))}
+                            </select>
+                            <select
+                              aria-label={`Strand of ${oligo.sequence_name}`}
+                              value={oligo.strand || ''}
+                              onChange={(e) =>
+                                handleRoleChange(oligo, oligo.role, (e.target.value || null) as OligoStrand | null)
+                              }
+                              disabled={roleSaving === oligo.oligo_id}
+                              className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+                            >
+                              <option value="">Not set</option>
+                              <option value="sense">{OLIGO_STRAND_LABELS.sense}</option>
+                              <option value="antisense">{OLIGO_STRAND_LABELS.antisense}</option>
+                            </select>
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {analysis?.length}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {analysis && analysis.gcContent.toFixed(1)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {analysis &&
+                            (analysis.invalidSequence ? (
+                              <span
+                                className="text-red-600 dark:text-red-400"
+                                title="The sequence contains characters that are not IUPAC codes"
+                              >
+                                Invalid sequence
+                              </span>
+                            ) : (
+                              formatTm(analysis)
+                            ))}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {analysis && formatDeltaG(analysis.hairpin, analysis)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {analysis && formatDeltaG(analysis.selfDimer, analysis)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {getAssayName(oligo.assay_id)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {formatDate(oligo.created_at)}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {detailOligo && (
+        <OligoDetailPanel
+          oligo={detailOligo}
+          analysis={analyses.get(detailOligo.oligo_id) || analyzeOligo(detailOligo.dna_sequence, conditions)}
+          conditions={conditions}
+          assayName={getAssayName(detailOligo.assay_id)}
+          onSave={(name, sequence) => handleUpdateOligo(detailOligo, name, sequence)}
+          onClose={() => setDetailOligo(null)}
+        />
+      )}
+    </div>
+  )
+}
+
+interface OligoDetailPanelProps {
+  oligo: Oligo
+  analysis: OligoAnalysis
+  conditions: ReactionConditions
+  assayName: string
+  onSave: (name: string, sequence: string) => Promise<string | null>
+  onClose: () => void
+}
+
+// Full analysis of a single oligo, including the most stable hairpin and self-dimer,
+// plus editing of name and sequence with the change history
+function OligoDetailPanel({ oligo, analysis, conditions, assayName, onSave, onClose }: OligoDetailPanelProps) {
+  const structures: Array<{ title: string; structure: SecondaryStructure | null }> = [
+    { title: 'Hairpin', structure: analysis.hairpin },
+    { title: 'Self-Dimer', structure: analysis.selfDimer },
+  ]
+
+  const [editing, setEditing] = useState(false)
+  const [editName, setEditName] = useState(oligo.sequence_name)
+  const [editSequence, setEditSequence] = useState(oligo.dna_sequence)
+  const [saving, setSaving] = useState(false)
+  const [editError, setEditError] = useState<string | null>(null)
+  // Number of BLAST results of the oligo's assay, set when a sequence change needs confirmation
+  const [affectedResults, setAffectedResults] = useState<number | null>(null)
+
+  const [history, setHistory] = useState<OligoHistoryEntry[]>([])
+  const [historyLoading, setHistoryLoading] = useState(true)
+
+  // Reload the history whenever the oligo changes (e.g. after saving)
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        setHistoryLoading(true)
+        setHistory(await fetchOligoHistory(oligo.oligo_id))
+      } catch (err) {
+        console.error('Error fetching oligo history:', err)
+      } finally {
+        setHistoryLoading(false)
+      }
+    }
+    loadHistory()
+  }, [oligo])
+
+  const handleStartEdit = () => {
+    setEditName(oligo.sequence_name)
+    setEditSequence(oligo.dna_sequence)
+    setEditError(null)
+    setAffectedResults(null)
+    setEditing(true)
+  }
+
+  // Results keep the oligo sequence they were computed with, so a sequence change of an oligo
+  // whose assay already has results is confirmed first
+  const handleSave = async (confirmed: boolean) => {
+    setEditError(null)
+    setSaving(true)
+    try {
+      const sequenceChanged = editSequence.replace(/\s/g, '').toUpperCase() !== oligo.dna_sequence
+      if (sequenceChanged && !confirmed && oligo.assay_id !== null) {
+        try {
+          const jobs = await fetchBlastAlignerJobs()
+          const count = jobs.filter((job) => job.alignjob_assay_id === oligo.assay_id && isCompletedJob(job)).length
+          if (count > 0) {
+            setAffectedResults(count)
+            return
+          }
+        } catch (err) {
+          // The warning is advisory, so saving continues without it
+          console.error('Error fetching BLAST jobs:', err)
+        }
+      }
+      const error = await onSave(editName, editSequence)
+      if (error) {
+        setEditError(error)
+      } else {
+        setEditing(false)
+        setAffectedResults(null)
+      }
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+              {oligo.sequence_name}
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Oligo ID: {oligo.oligo_id} | Assay: {assayName} | Role:{' '}
+              {oligo.role ? OLIGO_ROLE_LABELS[oligo.role] : 'Not set'}
+              {oligo.strand && ` (${OLIGO_STRAND_LABELS[oligo.strand].toLowerCase()})`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {!editing && (
+              <button
+                onClick={handleStartEdit}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg shadow-sm transition-colors"
+              >
+                Edit
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg shadow-sm transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {editing && (
+            <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-4">
+              <div>
+                <label
+                  htmlFor="editSequenceName"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  Sequence Name <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  id="editSequenceName"
+                  value={editName}
+                  onChange={(e) => setEditName(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="editDnaSequence"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  DNA Sequence <span className="text-red-500">*</span>
+                </label>
+                <textarea
+                  id="editDnaSequence"
+                  value={editSequence}
+                  onChange={(e) => {
+                    setEditSequence(e.target.value)
+                    setAffectedResults(null)
+                  }}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              {affectedResults !== null && (
+                <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+                  <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                    {assayName} already has {affectedResults} BLAST result(s). Existing results keep the previous
+                    sequence; order a new job to include the change.
+                  </p>
+                </div>
+              )}
+
+              {editError && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                  <p className="text-sm text-red-800 dark:text-red-200">{editError}</p>
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                <button
+                  onClick={() => handleSave(affectedResults !== null)}
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg shadow-sm transition-colors"
+                >
+                  {saving ? 'Saving...' : affectedResults !== null ? 'Save Anyway' : 'Save'}
+                </button>
+                <button
+                  onClick={() => setEditing(false)}
+                  disabled={saving}
+                  className="px-4 py-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Sequence (5&apos;-3&apos;)</h3>
+            <p className="text-sm text-gray-900 dark:text-white font-mono break-all">{oligo.dna_sequence}</p>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Length</p>
+              <p className="text-sm font-medium text-gray-900 dark:text-white">{analysis.length} nt</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">GC Content</p>
+              <p className="text-sm font-medium text-gray-900 dark:text-white">{analysis.gcContent.toFixed(1)} %</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Tm (nearest-neighbour)</p>
+              <p className="text-sm font-medium text-gray-900 dark:text-white">
+                {analysis.invalidSequence
+                  ? 'Invalid sequence'
+                  : analysis.tmMin === null
+                    ? 'n/a'
+                    : `${formatTm(analysis)} °C`}
+              </p>
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Conditions: {conditions.sodiumMm} mM Na+, {conditions.magnesiumMm} mM Mg2+, {conditions.dntpMm} mM dNTPs,{' '}
+            {conditions.oligoNm} nM oligo. ΔG at 37 °C.
+            {analysis.invalidSequence &&
+              ' Thermodynamic values are not available because the sequence contains characters that are not IUPAC codes.'}
+            {analysis.tooManyVariants && ' Thermodynamic values are not available for oligos with too many ambiguous bases.'}
+          </p>
+
+          {structures.map(({ title, structure }) => (
+            <div key={title}>
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                {title}: {formatDeltaG(structure, analysis)}
+              </h3>
+              {structure && structure.deltaG < 0 && (
+                <pre className="p-3 bg-gray-50 dark:bg-gray-900 rounded-lg text-xs text-gray-800 dark:text-gray-200 overflow-x-auto">
+                  {structure.structure.join('\n')}
+                </pre>
+              )}
+            </div>
+          ))}
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Change History</h3>
+            {historyLoading ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400">Loading history...</p>
+            ) : history.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400 italic">No changes since the oligo was created.</p>
+            ) : (
+              <table className="w-full">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      When
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Who
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Field
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Previous Value
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {history.map((entry) => (
+                    <tr key={entry.history_id}>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                        {new Date(entry.changed_at).toLocaleString()}
                       </td>
-                      <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400 font-mono">
-                        <span title={oligo.dna_sequence}>
-                          {truncateSequence(oligo.dna_sequence)}
-                        </span>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                        {entry.changed_by_name || <span className="italic">Unknown</span>}
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
-                        {getAssayName(oligo.assay_id)}
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                        {entry.field === 'dna_sequence' ? 'Sequence' : 'Name'}
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
-                        {formatDate(oligo.created_at)}
+                      <td
+                        className={`px-4 py-2 text-sm text-gray-900 dark:text-white break-all ${
+                          entry.field === 'dna_sequence' ? 'font-mono' : ''
+                        }`}
+                        title={`Changed to: ${entry.new_value}`}
+                      >
+                        {entry.old_value}
                       </td>
                     </tr>
                   ))}
                 </tbody>
               </table>
-            </div>
+            )}
           </div>
-        )}
+        </div>
       </div>
     </div>
   )
 }
-
@@ -2,14 +2,10 @@
 
 import { useState, useEffect } from 'react'
 import { supabase } from '@/lib/supabase'
+import { editUserNameInstitution, fetchUserNameInstitution } from '@/lib/api'
 
 export const dynamic = 'force-dynamic'
 
-interface UserSettings {
-  user_name: string | null
-  user_institution: string | null
-}
-
 export default function SettingsPage() {
   const [email, setEmail] = useState<string | null>(null)
   const [userName, setUserName] = useState<string>('')
@@ -33,15 +29,9 @@ export default function SettingsPage() {
         }
 
         // Fetch name and institution from database
-        const { data, error: fetchError } = await supabase.rpc('fetch_user_name_institution')
-
-        if (fetchError) {
-          throw fetchError
-        }
+        const settings = await fetchUserNameInstitution()
 
-        // The function returns an array with one row, or empty array if no entry exists
-        if (data && Array.isArray(data) && data.length > 0) {
-          const settings = data[0] as UserSettings
+        if (settings) {
           setUserName(settings.user_name || '')
           setUserInstitution(settings.user_institution || '')
         } else {
@@ -68,15 +58,11 @@ export default function SettingsPage() {
     setSuccess(false)
 
     try {
-      const { data, error: updateError } = await supabase.rpc('edit_user_name_institution', {
-        p_user_name: userName.trim() || null,
-        p_user_institution: userInstitution.trim() || null,
+      await editUserNameInstitution({
+        user_name: userName.trim() || null,
+        user_institution: userInstitution.trim() || null,
       })
 
-      if (updateError) {
-        throw updateError
-      }
-
       setSuccess(true)
       // Clear success message after 3 seconds
       setTimeout(() => setSuccess(false), 3000)
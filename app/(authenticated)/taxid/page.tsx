@@ -1,18 +1,11 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { supabase } from '@/lib/supabase'
+import { createUserTaxid, deleteUserTaxid, fetchUserTaxids } from '@/lib/api'
+import type { TaxID } from '@/lib/types'
 
 export const dynamic = 'force-dynamic'
 
-// Type definitions
-interface TaxID {
-  entry_id: number
-  taxid: number
-  created_at: string
-  taxid_spec: string | null
-}
-
 export default function TaxIDPage() {
   const [taxids, setTaxids] = useState<TaxID[]>([])
   const [loading, setLoading] = useState(true)
@@ -32,24 +25,7 @@ export default function TaxIDPage() {
   const fetchTaxids = async () => {
     try {
       setError(null)
-      const { data, error: fetchError } = await supabase.rpc('fetch_user_taxids')
-
-      if (fetchError) {
-        throw fetchError
-      }
-
-      // Handle the response - ensure data is an array and map to our type
-      if (data && Array.isArray(data)) {
-        const mappedData = data.map((item: any) => ({
-          entry_id: Number(item.entry_id),
-          taxid: Number(item.taxid),
-          created_at: item.created_at,
-          taxid_spec: item.taxid_spec || null,
-        }))
-        setTaxids(mappedData)
-      } else {
-        setTaxids([])
-      }
+      setTaxids(await fetchUserTaxids())
     } catch (err: any) {
       setError(err.message || 'Failed to fetch taxids')
       console.error('Error fetching taxids:', err)
@@ -128,14 +104,7 @@ export default function TaxIDPage() {
     setFormLoading(true)
 
     try {
-      const { data, error: createError } = await supabase.rpc('create_user_taxid', {
-        p_taxid: taxidNum,
-        p_taxid_spec: taxidSpec.trim() || null,
-      })
-
-      if (createError) {
-        throw createError
-      }
+      await createUserTaxid(taxidNum, taxidSpec.trim() || null)
 
       // Reset form
       setTaxid('')
@@ -162,13 +131,7 @@ export default function TaxIDPage() {
     setDeleteLoading(entryId)
 
     try {
-      const { error: deleteError } = await supabase.rpc('delete_user_taxid', {
-        p_entry_id: entryId,
-      })
-
-      if (deleteError) {
-        throw deleteError
-      }
+      await deleteUserTaxid(entryId)
 
       // Refresh taxids list
       await fetchTaxids()
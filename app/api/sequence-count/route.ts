@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EUTILS_BASE, NCBI_EMAIL, NCBI_TOOL } from '@/lib/ncbi'
+
+export const dynamic = 'force-dynamic';
+
+const EUTILS_ESEARCH = `${EUTILS_BASE}/esearch.fcgi`
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+
+// Number of NCBI nucleotide records of a taxid (including sub-taxa) published in a date range
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const taxid = searchParams.get('taxid')
+    const dateFrom = searchParams.get('dateFrom')
+    const dateTo = searchParams.get('dateTo')
+
+    if (!taxid || !dateFrom || !dateTo) {
+      return NextResponse.json(
+        { error: 'taxid, dateFrom and dateTo parameters are required' },
+        { status: 400 }
+      )
+    }
+
+    // Validate taxid is a positive integer
+    const taxidNum = parseInt(taxid.trim(), 10)
+    if (isNaN(taxidNum) || taxidNum <= 0) {
+      return NextResponse.json(
+        { error: 'TaxID must be a positive integer' },
+        { status: 400 }
+      )
+    }
+
+    if (!DATE_RE.test(dateFrom) || !DATE_RE.test(dateTo)) {
+      return NextResponse.json(
+        { error: 'Dates must be in YYYY-MM-DD format' },
+        { status: 400 }
+      )
+    }
+
+    // E-utilities expect dates as YYYY/MM/DD
+    const term = `txid${taxidNum}[Organism:exp] AND ("${dateFrom.replace(/-/g, '/')}"[PDAT] : "${dateTo.replace(/-/g, '/')}"[PDAT])`
+    const params = new URLSearchParams({
+      db: 'nuccore',
+      retmode: 'json',
+      rettype: 'count',
+      term,
+      email: NCBI_EMAIL,
+      tool: NCBI_TOOL,
+    })
+
+    const response = await fetch(`${EUTILS_ESEARCH}?${params.toString()}`, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+      },
+      // Add timeout to prevent hanging requests
+      signal: AbortSignal.timeout(30000), // 30 seconds
+    })
+
+    if (!response.ok) {
+      throw new Error(`NCBI API returned status ${response.status}`)
+    }
+
+    const data = await response.json()
+
+    // JSON structure: esearchresult -> {count: "123", ...}
+    const count = parseInt(data.esearchresult?.count, 10)
+    if (isNaN(count)) {
+      throw new Error('NCBI API returned no record count')
+    }
+
+    return NextResponse.json({
+      taxid: taxidNum,
+      dateFrom,
+      dateTo,
+      count,
+    })
+  } catch (error: any) {
+    console.error('Error fetching sequence count from NCBI:', error)
+
+    // Handle timeout errors
+    if (error.name === 'TimeoutError' || error.name === 'AbortError') {
+      return NextResponse.json(
+        { error: 'Request to NCBI timed out. Please try again.' },
+        { status: 504 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch sequence count' },
+      { status: 500 }
+    )
+  }
+}
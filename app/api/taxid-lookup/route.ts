@@ -1,12 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { EUTILS_BASE, NCBI_EMAIL, NCBI_TOOL } from '@/lib/ncbi'
 
 export const dynamic = 'force-dynamic';
 
-// IMPORTANT: Replace 'your-email@example.com' with your actual email address
-// This email is required by NCBI for API usage tracking
-const NCBI_EMAIL = 'dnoerz@uke.de'
-
-const EUTILS_ESUMMARY = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esummary.fcgi'
+const EUTILS_ESUMMARY = `${EUTILS_BASE}/esummary.fcgi`
 
 export async function GET(request: NextRequest) {
   try {
@@ -35,7 +32,7 @@ export async function GET(request: NextRequest) {
       retmode: 'json',
       id: taxid.trim(),
       email: NCBI_EMAIL,
-      tool: 'diversity-surveillance-tool',
+      tool: NCBI_TOOL,
     })
 
     const response = await fetch(`${EUTILS_ESUMMARY}?${params.toString()}`, {
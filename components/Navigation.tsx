@@ -20,7 +20,9 @@ export default function Navigation() {
     { href: '/oligo-repository', label: 'Oligo repository' },
     { href: '/assay-repository', label: 'Assay repository' },
     { href: '/blast-planner', label: 'BLAST planner' },
+    { href: '/blast-schedules', label: 'BLAST schedules' },
     { href: '/blast-results', label: 'BLAST results' },
+    { href: '/blast-trends', label: 'BLAST trends' },
   ]
 
   const isActive = (href: string) => {
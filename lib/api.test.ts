@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Mock } from 'vitest'
+import {
+  ApiError,
+  createUserAssay,
+  fetchBlastAlignerJobs,
+  fetchUserAssays,
+  fetchUserNameInstitution,
+  fetchUserOligos,
+  normalizeError,
+  oligoChangeRole,
+} from '@/lib/api'
+import { supabase } from '@/lib/supabase'
+
+vi.mock('@/lib/supabase', () => ({ supabase: { rpc: vi.fn() } }))
+
+const rpc = supabase.rpc as unknown as Mock
+
+// Next supabase.rpc call resolves like a PostgREST response
+function respond(data: unknown, error: unknown = null) {
+  rpc.mockResolvedValueOnce({ data, error })
+}
+
+beforeEach(() => {
+  rpc.mockReset()
+})
+
+describe('normalizeError', () => {
+  it('returns ApiErrors unchanged', () => {
+    const error = new ApiError('Not authenticated')
+    expect(normalizeError(error)).toBe(error)
+  })
+
+  it('keeps message, code, details and hint of a PostgrestError', () => {
+    const error = normalizeError({
+      message: 'duplicate key value violates unique constraint',
+      code: '23505',
+      details: 'Key (assay_name)=(HBV) already exists.',
+      hint: null,
+    })
+    expect(error).toBeInstanceOf(ApiError)
+    expect(error).toMatchObject({
+      message: 'duplicate key value violates unique constraint',
+      code: '23505',
+      details: 'Key (assay_name)=(HBV) already exists.',
+      hint: null,
+    })
+  })
+
+  it('uses the fallback message for objects without a message', () => {
+    expect(normalizeError({ code: 42 }, 'Failed to call x')).toMatchObject({ message: 'Failed to call x', code: null })
+    expect(normalizeError({ message: '' }, 'Failed to call x').message).toBe('Failed to call x')
+  })
+
+  it('wraps strings and falls back for anything else', () => {
+    expect(normalizeError('Network down').message).toBe('Network down')
+    expect(normalizeError(undefined).message).toBe('Unknown error')
+    expect(normalizeError(null, 'Failed').message).toBe('Failed')
+  })
+})
+
+describe('row mapping', () => {
+  it('converts bigint strings and empty values of assay rows', async () => {
+    respond([
+      {
+        assay_id: '9007199254740',
+        assay_name: 'HBV S',
+        target_taxid: null,
+        target_gene: '',
+        assay_ref_amplicon: '17',
+        amplicon_name: null,
+        created_at: '2024-03-01T10:00:00+00:00',
+      },
+    ])
+    expect(await fetchUserAssays()).toEqual([
+      {
+        assay_id: 9007199254740,
+        assay_name: 'HBV S',
+        target_taxid: null,
+        target_gene: null,
+        assay_ref_amplicon: 17,
+        amplicon_name: null,
+        amplicon_version: 1,
+        created_at: '2024-03-01T10:00:00+00:00',
+      },
+    ])
+    expect(rpc).toHaveBeenCalledWith('fetch_user_assays', undefined)
+  })
+
+  it('treats unknown roles and strands as not set', async () => {
+    respond([
+      {
+        oligo_id: '5',
+        sequence_name: 'HBV_F1',
+        dna_sequence: 'ACGT',
+        created_at: '2024-03-01T10:00:00+00:00',
+        assay_id: null,
+        role: 'primer',
+        strand: 'plus',
+      },
+    ])
+    const [oligo] = await fetchUserOligos()
+    expect(oligo).toMatchObject({ oligo_id: 5, assay_id: null, role: null, strand: null })
+  })
+
+  it('maps the oligos and numeric columns of aligner jobs', async () => {
+    respond([
+      {
+        align_id: '42',
+        alignjob_status: 'completed',
+        alignjob_assay_id: '7',
+        alignjob_taxid: '10407',
+        alignjob_amplicon_id: null,
+        alignjob_amplicon_version: '2',
+        alignjob_identity: '90.5',
+        alignjob_coverage: '',
+        alignjob_oligos: [{ id: 'HBV_F1', sequence: 'ACGT', role: 'forward', strand: 'sense' }, null],
+        alignjob_result: null,
+      },
+    ])
+    const [job] = await fetchBlastAlignerJobs()
+    expect(job).toMatchObject({
+      align_id: 42,
+      alignjob_assay_id: 7,
+      alignjob_taxid: 10407,
+      alignjob_amplicon_id: null,
+      alignjob_amplicon_version: 2,
+      alignjob_identity: 90.5,
+      alignjob_coverage: null,
+      alignjob_result: null,
+    })
+    expect(job.alignjob_oligos).toEqual([
+      { id: 'HBV_F1', sequence: 'ACGT', role: 'forward', strand: 'sense' },
+      { id: '', sequence: '', role: null, strand: null },
+    ])
+  })
+
+  it('returns no rows when a set-returning function returns something else', async () => {
+    respond(null)
+    expect(await fetchUserAssays()).toEqual([])
+    respond([])
+    expect(await fetchUserNameInstitution()).toBeNull()
+  })
+
+  it('accepts single rows as a row or a one-row set', async () => {
+    const row = { oligo_id: 5, sequence_name: 'P1', dna_sequence: 'ACGT', role: 'probe', strand: null }
+    respond(row)
+    expect(await oligoChangeRole(5, 'probe', null)).toMatchObject({ oligo_id: 5, role: 'probe' })
+    respond([row])
+    expect(await oligoChangeRole(5, 'probe', null)).toMatchObject({ oligo_id: 5, role: 'probe' })
+    expect(rpc).toHaveBeenLastCalledWith('oligo_change_role', { p_oligo_id: 5, p_role: 'probe', p_strand: null })
+  })
+})
+
+describe('errors', () => {
+  it('throws the PostgREST error as ApiError', async () => {
+    respond(null, { message: 'assay_id 3 does not belong to you', code: 'P0001', details: null, hint: null })
+    await expect(fetchUserAssays()).rejects.toMatchObject({
+      name: 'ApiError',
+      message: 'assay_id 3 does not belong to you',
+      code: 'P0001',
+    })
+  })
+
+  it('normalizes a rejected client call', async () => {
+    rpc.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+    const error = await fetchUserOligos().catch((err) => err)
+    expect(error).toBeInstanceOf(ApiError)
+    expect(error.message).toBe('Failed to fetch')
+  })
+
+  it('throws when a single-row function returns no row', async () => {
+    respond([])
+    await expect(oligoChangeRole(5, null, null)).rejects.toThrow('oligo_change_role returned no row')
+  })
+
+  it('throws instead of returning NaN when the created assay has no id', async () => {
+    const input = { assayName: 'HBV', ampliconSeq: 'ACGT', targetTaxid: null, targetGene: null, ampliconName: null }
+    respond({ assay_id: null })
+    await expect(createUserAssay(input)).rejects.toBeInstanceOf(ApiError)
+    respond([{ assay_id: '12' }])
+    expect(await createUserAssay(input)).toBe(12)
+  })
+})
@@ -0,0 +1,685 @@
+import { supabase } from '@/lib/supabase'
+import type {
+  AlignJobOligo,
+  BatchOrderMode,
+  BatchOrderResult,
+  BlastAlignerJob,
+  BlastJobParameters,
+  BlastParameterPreset,
+  BlastPlanningEntry,
+  BlastSchedule,
+  DashboardEntry,
+  Oligo,
+  OligoHistoryEntry,
+  OligoRole,
+  OligoStrand,
+  OrderBlastJobInput,
+  ReferenceAmplicon,
+  ResultData,
+  ScheduleFrequency,
+  TaxID,
+  UserAssay,
+  UserSettings,
+} from '@/lib/types'
+
+// Typed wrappers around the Supabase RPC functions.
+// Every function either resolves with mapped rows or throws an ApiError, so pages
+// only need a single try/catch and never see raw PostgREST responses.
+
+export class ApiError extends Error {
+  code: string | null
+  details: string | null
+  hint: string | null
+
+  constructor(message: string, code: string | null = null, details: string | null = null, hint: string | null = null) {
+    super(message)
+    this.name = 'ApiError'
+    this.code = code
+    this.details = details
+    this.hint = hint
+  }
+}
+
+// Turn anything thrown by the Supabase client (PostgrestError, fetch failure, ...) into an ApiError
+export function normalizeError(err: unknown, fallbackMessage = 'Unknown error'): ApiError {
+  if (err instanceof ApiError) {
+    return err
+  }
+  if (err && typeof err === 'object') {
+    const e = err as { message?: unknown; code?: unknown; details?: unknown; hint?: unknown }
+    return new ApiError(
+      typeof e.message === 'string' && e.message ? e.message : fallbackMessage,
+      typeof e.code === 'string' ? e.code : null,
+      typeof e.details === 'string' ? e.details : null,
+      typeof e.hint === 'string' ? e.hint : null
+    )
+  }
+  if (typeof err === 'string' && err) {
+    return new ApiError(err)
+  }
+  return new ApiError(fallbackMessage)
+}
+
+// Row as returned by PostgREST. Values are unchecked until they pass through a mapper
+type Row = Record<string, unknown>
+
+// Call an RPC function and throw a normalized error on failure
+async function callRpc(fn: string, params?: Record<string, unknown>): Promise<unknown> {
+  let response
+  try {
+    response = await supabase.rpc(fn, params)
+  } catch (err) {
+    throw normalizeError(err, `Failed to call ${fn}`)
+  }
+  if (response.error) {
+    throw normalizeError(response.error, `Failed to call ${fn}`)
+  }
+  return response.data as unknown
+}
+
+// Call an RPC function that returns a set of rows
+async function callRpcRows(fn: string, params?: Record<string, unknown>): Promise<unknown[]> {
+  const data = await callRpc(fn, params)
+  return Array.isArray(data) ? data : []
+}
+
+// Call an RPC function that returns a single row (as a row or a one-row set)
+async function callRpcRow(fn: string, params?: Record<string, unknown>): Promise<unknown> {
+  const data = await callRpc(fn, params)
+  const row = Array.isArray(data) ? data[0] : data
+  if (row === null || row === undefined) {
+    throw new ApiError(`${fn} returned no row`)
+  }
+  return row
+}
+
+// RPC arguments for a set of BLAST parameters (same names as order_blast_aligner_job)
+function blastParameterArgs(parameters: BlastJobParameters): Record<string, number> {
+  return {
+    p_identity: parameters.identity,
+    p_coverage: parameters.coverage,
+    p_match_score: parameters.matchScore,
+    p_mismatch_score: parameters.mismatchScore,
+    p_opengap: parameters.openGap,
+    p_extendgap: parameters.extendGap,
+    p_oligo_min_cover: parameters.oligoMinCover,
+  }
+}
+
+// Convert nullable numeric columns (bigint/numeric arrive as numbers or strings)
+function toNumberOrNull(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null
+  }
+  const num = Number(value)
+  return isNaN(num) ? null : num
+}
+
+function asRow(value: unknown): Row {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) ? (value as Row) : {}
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return ''
+  }
+  return typeof value === 'string' ? value : String(value)
+}
+
+// Empty strings are treated as "not set"
+function toTextOrNull(value: unknown): string | null {
+  return toText(value) || null
+}
+
+// Unknown values are treated as "not set"
+function toOligoRole(value: unknown): OligoRole | null {
+  return value === 'forward' || value === 'reverse' || value === 'probe' ? value : null
+}
+
+function toOligoStrand(value: unknown): OligoStrand | null {
+  return value === 'sense' || value === 'antisense' ? value : null
+}
+
+// Unknown values fall back to the default of the schedule form
+function toScheduleFrequency(value: unknown): ScheduleFrequency {
+  return value === 'weekly' || value === 'monthly' || value === 'quarterly' ? value : 'monthly'
+}
+
+// ============================================
+// Mappers
+// ============================================
+
+export function mapTaxID(row: unknown): TaxID {
+  const item = asRow(row)
+  return {
+    entry_id: Number(item.entry_id),
+    taxid: Number(item.taxid),
+    created_at: toText(item.created_at),
+    taxid_spec: toTextOrNull(item.taxid_spec),
+  }
+}
+
+export function mapUserAssay(row: unknown): UserAssay {
+  const item = asRow(row)
+  return {
+    assay_id: Number(item.assay_id),
+    assay_name: toText(item.assay_name),
+    target_taxid: toNumberOrNull(item.target_taxid),
+    target_gene: toTextOrNull(item.target_gene),
+    assay_ref_amplicon: Number(item.assay_ref_amplicon),
+    amplicon_name: toTextOrNull(item.amplicon_name),
+    amplicon_version: Number(item.amplicon_version ?? 1),
+    created_at: toText(item.created_at),
+  }
+}
+
+export function mapReferenceAmplicon(row: unknown): ReferenceAmplicon {
+  const item = asRow(row)
+  return {
+    amplicon_id: Number(item.amplicon_id),
+    amplicon_name: toTextOrNull(item.amplicon_name),
+    amplicon_seq: toText(item.amplicon_seq),
+    amplicon_version: Number(item.amplicon_version ?? 1),
+    created_at: toText(item.created_at),
+  }
+}
+
+export function mapOligo(row: unknown): Oligo {
+  const item = asRow(row)
+  return {
+    oligo_id: Number(item.oligo_id),
+    sequence_name: toText(item.sequence_name),
+    dna_sequence: toText(item.dna_sequence),
+    created_at: toText(item.created_at),
+    assay_id: toNumberOrNull(item.assay_id),
+    role: toOligoRole(item.role),
+    strand: toOligoStrand(item.strand),
+  }
+}
+
+export function mapOligoHistoryEntry(row: unknown): OligoHistoryEntry {
+  const item = asRow(row)
+  return {
+    history_id: Number(item.history_id),
+    oligo_id: Number(item.oligo_id),
+    field: item.field === 'dna_sequence' ? 'dna_sequence' : 'sequence_name',
+    old_value: toText(item.old_value),
+    new_value: toText(item.new_value),
+    changed_by_name: toTextOrNull(item.changed_by_name),
+    changed_at: toText(item.changed_at),
+  }
+}
+
+export function mapDashboardEntry(row: unknown): DashboardEntry {
+  const item = asRow(row)
+  return {
+    entry_id: Number(item.entry_id),
+    assay_id: Number(item.assay_id),
+    lookback_days: toNumberOrNull(item.lookback_days),
+    last_checked: toTextOrNull(item.last_checked),
+    nuccor_entries_found: toNumberOrNull(item.nuccor_entries_found),
+    nuccor_queue_entry: toNumberOrNull(item.nuccor_queue_entry),
+  }
+}
+
+export function mapBlastPlanningEntry(row: unknown): BlastPlanningEntry {
+  const item = asRow(row)
+  return {
+    planner_entry_id: Number(item.planner_entry_id),
+    assay_id: Number(item.assay_id),
+    assay_name: toText(item.assay_name),
+    oligo_count: Number(item.oligo_count),
+  }
+}
+
+export function mapBatchOrderResult(row: unknown): BatchOrderResult {
+  const item = asRow(row)
+  return {
+    planner_entry_id: Number(item.planner_entry_id),
+    success: Boolean(item.success),
+    align_id: toNumberOrNull(item.align_id),
+    error: toTextOrNull(item.error),
+    rolled_back: Boolean(item.rolled_back),
+  }
+}
+
+// Presets and schedules store the parameters in the same columns as order_blast_aligner_job
+function mapBlastJobParameters(row: unknown): BlastJobParameters {
+  const item = asRow(row)
+  return {
+    identity: Number(item.identity),
+    coverage: Number(item.coverage),
+    matchScore: Number(item.match_score),
+    mismatchScore: Number(item.mismatch_score),
+    openGap: Number(item.opengap),
+    extendGap: Number(item.extendgap),
+    oligoMinCover: Number(item.oligo_min_cover),
+  }
+}
+
+export function mapBlastParameterPreset(row: unknown): BlastParameterPreset {
+  const item = asRow(row)
+  return {
+    preset_id: Number(item.preset_id),
+    preset_name: toText(item.preset_name),
+    parameters: mapBlastJobParameters(item),
+    is_shared: Boolean(item.is_shared),
+    is_own: Boolean(item.is_own),
+    is_default: Boolean(item.is_default),
+    owner_name: toTextOrNull(item.owner_name),
+    created_at: toText(item.created_at),
+  }
+}
+
+export function mapBlastSchedule(row: unknown): BlastSchedule {
+  const item = asRow(row)
+  return {
+    schedule_id: Number(item.schedule_id),
+    assay_id: Number(item.assay_id),
+    assay_name: toText(item.assay_name),
+    frequency: toScheduleFrequency(item.frequency),
+    lookback_days: Number(item.lookback_days),
+    parameters: mapBlastJobParameters(item),
+    is_paused: Boolean(item.is_paused),
+    next_run_at: toText(item.next_run_at),
+    last_run_at: toTextOrNull(item.last_run_at),
+    last_align_id: toNumberOrNull(item.last_align_id),
+    created_at: toText(item.created_at),
+  }
+}
+
+function mapAlignJobOligos(value: unknown): AlignJobOligo[] {
+  if (!Array.isArray(value)) {
+    return []
+  }
+  return value.map((entry) => {
+    const oligo = asRow(entry)
+    return {
+      id: toText(oligo.id),
+      sequence: toText(oligo.sequence),
+      role: toOligoRole(oligo.role),
+      strand: toOligoStrand(oligo.strand),
+    }
+  })
+}
+
+export function mapBlastAlignerJob(row: unknown): BlastAlignerJob {
+  const item = asRow(row)
+  return {
+    align_id: Number(item.align_id),
+    created_at: toText(item.created_at),
+    user_auth: toText(item.user_auth),
+    alignjob_status: toText(item.alignjob_status),
+    alignjob_assay_id: Number(item.alignjob_assay_id),
+    alignjob_taxid: Number(item.alignjob_taxid),
+    alignjob_date_from: toText(item.alignjob_date_from),
+    alignjob_date_to: toText(item.alignjob_date_to),
+    alignjob_reference_seq: toText(item.alignjob_reference_seq),
+    alignjob_amplicon_id: toNumberOrNull(item.alignjob_amplicon_id),
+    alignjob_amplicon_version: toNumberOrNull(item.alignjob_amplicon_version),
+    alignjob_oligos: mapAlignJobOligos(item.alignjob_oligos),
+    alignjob_identity: toNumberOrNull(item.alignjob_identity),
+    alignjob_coverage: toNumberOrNull(item.alignjob_coverage),
+    alignjob_match_score: toNumberOrNull(item.alignjob_match_score),
+    alignjob_mismatch_score: toNumberOrNull(item.alignjob_mismatch_score),
+    alignjob_opengap: toNumberOrNull(item.alignjob_opengap),
+    alignjob_extendgap: toNumberOrNull(item.alignjob_extendgap),
+    alignjob_oligo_min_cover: toNumberOrNull(item.alignjob_oligo_min_cover),
+    // JSONB payload, checked where it is rendered (see lib/patterns.ts)
+    alignjob_result: (item.alignjob_result ?? null) as ResultData | null,
+  }
+}
+
+// ============================================
+// TaxIDs
+// ============================================
+
+export async function fetchUserTaxids(): Promise<TaxID[]> {
+  const rows = await callRpcRows('fetch_user_taxids')
+  return rows.map(mapTaxID)
+}
+
+export async function createUserTaxid(taxid: number, taxidSpec: string | null): Promise<void> {
+  await callRpc('create_user_taxid', {
+    p_taxid: taxid,
+    p_taxid_spec: taxidSpec,
+  })
+}
+
+export async function deleteUserTaxid(entryId: number): Promise<void> {
+  await callRpc('delete_user_taxid', { p_entry_id: entryId })
+}
+
+// ============================================
+// Assays
+// ============================================
+
+export interface CreateAssayInput {
+  assayName: string
+  ampliconSeq: string
+  targetTaxid: number | null
+  targetGene: string | null
+  ampliconName: string | null
+}
+
+export async function fetchUserAssays(): Promise<UserAssay[]> {
+  const rows = await callRpcRows('fetch_user_assays')
+  return rows.map(mapUserAssay)
+}
+
+// Returns the assay_id of the created assay
+export async function createUserAssay(input: CreateAssayInput): Promise<number> {
+  const row = await callRpcRow('create_user_assay', {
+    p_assay_name: input.assayName,
+    p_amplicon_seq: input.ampliconSeq,
+    p_target_taxid: input.targetTaxid,
+    p_target_gene: input.targetGene,
+    p_amplicon_name: input.ampliconName,
+  })
+  const assayId = toNumberOrNull(asRow(row).assay_id)
+  if (assayId === null) {
+    throw new ApiError('create_user_assay did not return the created assay')
+  }
+  return assayId
+}
+
+// A changed amplicon sequence is stored as a new amplicon version, other fields are updated in place
+export async function updateUserAssay(assayId: number, input: CreateAssayInput): Promise<UserAssay> {
+  const row = await callRpcRow('update_user_assay', {
+    p_assay_id: assayId,
+    p_assay_name: input.assayName,
+    p_amplicon_seq: input.ampliconSeq,
+    p_target_taxid: input.targetTaxid,
+    p_target_gene: input.targetGene,
+    p_amplicon_name: input.ampliconName,
+  })
+  return mapUserAssay(row)
+}
+
+// Copies the assay fields, the current reference amplicon and all linked oligos.
+// Returns the created assay
+export async function duplicateUserAssay(assayId: number, assayName: string): Promise<UserAssay> {
+  const row = await callRpcRow('duplicate_user_assay', {
+    p_assay_id: assayId,
+    p_assay_name: assayName,
+  })
+  return mapUserAssay(row)
+}
+
+// Current version of the reference amplicon
+export async function fetchAssayAmplicon(assayId: number): Promise<ReferenceAmplicon> {
+  const row = await callRpcRow('fetch_assay_amplicon', { p_assay_id: assayId })
+  return mapReferenceAmplicon(row)
+}
+
+// All versions of the reference amplicon, newest first
+export async function fetchAmpliconVersions(assayId: number): Promise<ReferenceAmplicon[]> {
+  const rows = await callRpcRows('fetch_amplicon_versions', { p_assay_id: assayId })
+  return rows.map(mapReferenceAmplicon)
+}
+
+// Also deletes all versions of the reference amplicon and all linked oligos
+export async function deleteUserAssay(assayId: number): Promise<void> {
+  await callRpc('delete_user_assay', { p_assay_id: assayId })
+}
+
+// ============================================
+// Oligos
+// ============================================
+
+export interface CreateOligoInput {
+  sequenceName: string
+  dnaSequence: string
+  assayId: number | null
+  role: OligoRole | null
+  strand: OligoStrand | null
+}
+
+export async function fetchUserOligos(): Promise<Oligo[]> {
+  const rows = await callRpcRows('fetch_user_oligos')
+  return rows.map(mapOligo)
+}
+
+export async function createUserOligo(input: CreateOligoInput): Promise<void> {
+  await callRpc('create_user_oligo', {
+    p_sequence_name: input.sequenceName,
+    p_dna_sequence: input.dnaSequence,
+    p_assay_id: input.assayId,
+    p_panel_id: null,
+    p_role: input.role,
+    p_strand: input.strand,
+  })
+}
+
+export async function deleteUserOligo(oligoId: number): Promise<void> {
+  await callRpc('delete_user_oligo', { p_oligo_id: oligoId })
+}
+
+// Pass null as assayId to unassign the oligo
+export async function oligoChangeAssay(oligoId: number, assayId: number | null): Promise<Oligo> {
+  const row = await callRpcRow('oligo_change_assay', {
+    p_oligo_id: oligoId,
+    p_assay_id: assayId,
+  })
+  return mapOligo(row)
+}
+
+export interface UpdateOligoInput {
+  sequenceName: string
+  dnaSequence: string
+}
+
+// Changed fields are recorded in the oligo history; oligo_id stays the same
+export async function updateUserOligo(oligoId: number, input: UpdateOligoInput): Promise<Oligo> {
+  const row = await callRpcRow('update_user_oligo', {
+    p_oligo_id: oligoId,
+    p_sequence_name: input.sequenceName,
+    p_dna_sequence: input.dnaSequence,
+  })
+  return mapOligo(row)
+}
+
+// Newest change first
+export async function fetchOligoHistory(oligoId: number): Promise<OligoHistoryEntry[]> {
+  const rows = await callRpcRows('fetch_oligo_history', { p_oligo_id: oligoId })
+  return rows.map(mapOligoHistoryEntry)
+}
+
+// Pass null to clear the role or strand
+export async function oligoChangeRole(
+  oligoId: number,
+  role: OligoRole | null,
+  strand: OligoStrand | null
+): Promise<Oligo> {
+  const row = await callRpcRow('oligo_change_role', {
+    p_oligo_id: oligoId,
+    p_role: role,
+    p_strand: strand,
+  })
+  return mapOligo(row)
+}
+
+// ============================================
+// Dashboard
+// ============================================
+
+// Syncs the dashboard_entries table with the user's assays (inserts new, removes orphaned)
+export async function syncDashboardEntries(): Promise<void> {
+  await callRpc('fetch_dashboard_entries')
+}
+
+export async function fetchDashboardUpdate(): Promise<DashboardEntry[]> {
+  const rows = await callRpcRows('fetch_dashboard_update')
+  return rows.map(mapDashboardEntry)
+}
+
+// Currently there is only one dashboard job type (1)
+export async function orderDashboardJob(entryId: number, lookbackDays: number, jobType = 1): Promise<void> {
+  await callRpc('order_dashboard_job', {
+    p_job_type: jobType,
+    p_entry_id: entryId,
+    p_lookback_days: lookbackDays,
+  })
+}
+
+// ============================================
+// BLAST planner / aligner jobs
+// ============================================
+
+export async function fetchBlastPlanningList(): Promise<BlastPlanningEntry[]> {
+  const rows = await callRpcRows('fetch_blast_planning_list')
+  return rows.map(mapBlastPlanningEntry)
+}
+
+// Ordering a job removes its planner entry; this puts the assay back on the planning list
+// (used to re-order a failed job). Returns the existing entry if the assay is already listed.
+export async function reopenBlastPlannerEntry(assayId: number): Promise<BlastPlanningEntry> {
+  const row = await callRpcRow('reopen_blast_planner_entry', { p_assay_id: assayId })
+  return mapBlastPlanningEntry(row)
+}
+
+export async function orderBlastAlignerJob(input: OrderBlastJobInput): Promise<void> {
+  await callRpc('order_blast_aligner_job', {
+    p_planner_entry_id: input.plannerEntryId,
+    p_date_from: input.dateFrom,
+    p_date_to: input.dateTo,
+    ...blastParameterArgs(input),
+  })
+}
+
+// Orders all entries in one transaction and returns one result per entry, in input order
+export async function orderBlastAlignerJobsBatch(
+  inputs: OrderBlastJobInput[],
+  mode: BatchOrderMode
+): Promise<BatchOrderResult[]> {
+  const rows = await callRpcRows('order_blast_aligner_jobs_batch', {
+    p_entries: inputs.map((input) => ({
+      planner_entry_id: input.plannerEntryId,
+      date_from: input.dateFrom,
+      date_to: input.dateTo,
+      identity: input.identity,
+      coverage: input.coverage,
+      match_score: input.matchScore,
+      mismatch_score: input.mismatchScore,
+      opengap: input.openGap,
+      extendgap: input.extendGap,
+      oligo_min_cover: input.oligoMinCover,
+    })),
+    p_mode: mode,
+  })
+  return rows.map(mapBatchOrderResult)
+}
+
+export async function fetchBlastAlignerJobs(): Promise<BlastAlignerJob[]> {
+  const rows = await callRpcRows('fetch_blast_aligner_jobs')
+  return rows.map(mapBlastAlignerJob)
+}
+
+// Only the given jobs, for polling jobs that are still queued or running.
+// Ids of deleted jobs or jobs of other users are left out of the result
+export async function fetchBlastAlignerJobsById(alignIds: number[]): Promise<BlastAlignerJob[]> {
+  const rows = await callRpcRows('fetch_blast_aligner_jobs_by_id', { p_align_ids: alignIds })
+  return rows.map(mapBlastAlignerJob)
+}
+
+export async function deleteBlastAlignerJob(alignId: number): Promise<void> {
+  await callRpc('delete_blast_aligner_job', { p_align_id: alignId })
+}
+
+// ============================================
+// BLAST parameter presets
+// ============================================
+
+export interface SaveBlastPresetInput {
+  presetName: string
+  parameters: BlastJobParameters
+  isShared: boolean
+}
+
+// Own presets plus presets shared by users of the same institution
+export async function fetchBlastParameterPresets(): Promise<BlastParameterPreset[]> {
+  const rows = await callRpcRows('fetch_blast_parameter_presets')
+  return rows.map(mapBlastParameterPreset)
+}
+
+// Creates the preset, or overwrites the user's own preset with the same name
+export async function saveBlastParameterPreset(input: SaveBlastPresetInput): Promise<BlastParameterPreset> {
+  const row = await callRpcRow('save_blast_parameter_preset', {
+    p_preset_name: input.presetName,
+    ...blastParameterArgs(input.parameters),
+    p_is_shared: input.isShared,
+  })
+  return mapBlastParameterPreset(row)
+}
+
+export async function deleteBlastParameterPreset(presetId: number): Promise<void> {
+  await callRpc('delete_blast_parameter_preset', { p_preset_id: presetId })
+}
+
+// Pass null to clear the default
+export async function setDefaultBlastParameterPreset(presetId: number | null): Promise<void> {
+  await callRpc('set_default_blast_parameter_preset', { p_preset_id: presetId })
+}
+
+// ============================================
+// Recurring BLAST schedules
+// ============================================
+
+export interface CreateBlastScheduleInput {
+  assayId: number
+  frequency: ScheduleFrequency
+  lookbackDays: number
+  firstRunDate: string // YYYY-MM-DD
+  parameters: BlastJobParameters
+}
+
+export async function fetchBlastSchedules(): Promise<BlastSchedule[]> {
+  const rows = await callRpcRows('fetch_blast_schedules')
+  return rows.map(mapBlastSchedule)
+}
+
+export async function createBlastSchedule(input: CreateBlastScheduleInput): Promise<BlastSchedule> {
+  const row = await callRpcRow('create_blast_schedule', {
+    p_assay_id: input.assayId,
+    p_frequency: input.frequency,
+    p_lookback_days: input.lookbackDays,
+    p_first_run_date: input.firstRunDate,
+    ...blastParameterArgs(input.parameters),
+  })
+  return mapBlastSchedule(row)
+}
+
+export async function setBlastSchedulePaused(scheduleId: number, paused: boolean): Promise<void> {
+  await callRpc('set_blast_schedule_paused', {
+    p_schedule_id: scheduleId,
+    p_paused: paused,
+  })
+}
+
+export async function deleteBlastSchedule(scheduleId: number): Promise<void> {
+  await callRpc('delete_blast_schedule', { p_schedule_id: scheduleId })
+}
+
+// ============================================
+// User settings
+// ============================================
+
+// Returns null if the user has no settings entry yet
+export async function fetchUserNameInstitution(): Promise<UserSettings | null> {
+  const rows = await callRpcRows('fetch_user_name_institution')
+  if (rows.length === 0) {
+    return null
+  }
+  const item = asRow(rows[0])
+  return {
+    user_name: toTextOrNull(item.user_name),
+    user_institution: toTextOrNull(item.user_institution),
+  }
+}
+
+export async function editUserNameInstitution(settings: UserSettings): Promise<void> {
+  await callRpc('edit_user_name_institution', {
+    p_user_name: settings.user_name,
+    p_user_institution: settings.user_institution,
+  })
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { MAX_PRIMER_TM_SPREAD, MIN_CROSS_DIMER_DELTA_G, MIN_PROBE_TM_OFFSET, checkAssay } from '@/lib/assayCheck'
+import type { Oligo, OligoRole } from '@/lib/types'
+
+// Prefixes of the SARS-CoV-2 N1 region; under the default conditions the Tm rises with the length:
+// 18 nt 57.6 °C, 19 nt 58.4 °C, 21 nt 60.2 °C, 22 nt 63.0 °C, 23 nt 64.5 °C, 24 nt 65.3 °C
+const N1_REGION = 'GACCCCAAAATCAGCGAAATGCACCCCGCATTACG'
+const prefix = (length: number) => N1_REGION.substring(0, length)
+
+let nextId = 1
+function oligo(sequence: string, role: OligoRole | null, name = `oligo${nextId}`): Oligo {
+  return {
+    oligo_id: nextId++,
+    sequence_name: name,
+    dna_sequence: sequence,
+    created_at: '2024-03-01T10:00:00+00:00',
+    assay_id: 1,
+    role,
+    strand: null,
+  }
+}
+
+const warningsStartingWith = (oligos: Oligo[], start: string) =>
+  checkAssay(oligos).warnings.filter((w) => w.startsWith(start))
+
+describe('primer Tm spread', () => {
+  it(`warns above ${MAX_PRIMER_TM_SPREAD} °C`, () => {
+    const check = checkAssay([oligo(prefix(18), 'forward'), oligo(prefix(22), 'reverse')])
+    expect(check.primerTmSpread).toBeCloseTo(5.38, 1)
+    expect(check.warnings).toContain('Primer Tm spread is 5.4 °C (more than 5 °C)')
+  })
+
+  it(`does not warn at ${MAX_PRIMER_TM_SPREAD} °C or less`, () => {
+    const oligos = [oligo(prefix(19), 'forward'), oligo(prefix(22), 'reverse')]
+    expect(checkAssay(oligos).primerTmSpread).toBeCloseTo(4.61, 1)
+    expect(warningsStartingWith(oligos, 'Primer Tm spread')).toEqual([])
+  })
+
+  it('needs two primers', () => {
+    expect(checkAssay([oligo(prefix(18), 'forward'), oligo(prefix(24), 'probe')]).primerTmSpread).toBeNull()
+  })
+})
+
+describe('probe Tm offset', () => {
+  const primers = () => [oligo(prefix(19), 'forward'), oligo(prefix(21), 'reverse')]
+
+  it(`warns when the probe melts less than ${MIN_PROBE_TM_OFFSET} °C above the primers`, () => {
+    const check = checkAssay([...primers(), oligo(prefix(23), 'probe')])
+    expect(check.probeTmOffset).toBeCloseTo(4.26, 1)
+    expect(check.warnings).toContain('Probe Tm is only 4.3 °C above the primers (at least 5 °C recommended)')
+  })
+
+  it(`does not warn at ${MIN_PROBE_TM_OFFSET} °C or more`, () => {
+    const oligos = [...primers(), oligo(prefix(24), 'probe')]
+    expect(checkAssay(oligos).probeTmOffset).toBeCloseTo(5.12, 1)
+    expect(warningsStartingWith(oligos, 'Probe Tm')).toEqual([])
+  })
+})
+
+describe('cross-dimers', () => {
+  // Poly-T tails with a GC duplex of 6 or 7 bp between the 3' end of A and the 5' end of B
+  it(`warns below ${MIN_CROSS_DIMER_DELTA_G} kcal/mol`, () => {
+    const oligos = [oligo('TTTTTTTTTTGCGCGCG', 'forward', 'A'), oligo('CGCGCGCTTTTTTTTTT', 'reverse', 'B')]
+    const check = checkAssay(oligos)
+    expect(check.crossDimers).toHaveLength(1)
+    expect(check.crossDimers[0].dimer?.deltaG).toBeCloseTo(-9.98, 1)
+    expect(check.warnings).toContain('Cross-dimer A / B: -10.0 kcal/mol')
+  })
+
+  it(`does not warn at ${MIN_CROSS_DIMER_DELTA_G} kcal/mol or above`, () => {
+    const oligos = [oligo('TTTTTTTTTTGCGCGC', 'forward', 'A'), oligo('GCGCGCTTTTTTTTTT', 'reverse', 'B')]
+    expect(checkAssay(oligos).crossDimers[0].dimer?.deltaG).toBeCloseTo(-8.02, 1)
+    expect(warningsStartingWith(oligos, 'Cross-dimer')).toEqual([])
+  })
+
+  it('checks every pair once', () => {
+    const check = checkAssay([oligo(prefix(19), 'forward'), oligo(prefix(21), 'reverse'), oligo(prefix(24), 'probe')])
+    expect(check.crossDimers).toHaveLength(3)
+  })
+})
+
+describe('oligos without a role', () => {
+  it('are reported and left out of the Tm checks, also when named like primers', () => {
+    const check = checkAssay([oligo(prefix(18), null, 'N1_F1'), oligo(prefix(24), null, 'N1_R1')])
+    expect(check.oligos.map((c) => c.role)).toEqual([null, null])
+    expect(check.primerTmSpread).toBeNull()
+    expect(check.warnings).toEqual([
+      'N1_F1: role not set, not included in the Tm checks',
+      'N1_R1: role not set, not included in the Tm checks',
+    ])
+  })
+})
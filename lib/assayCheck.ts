@@ -0,0 +1,87 @@
+import { DEFAULT_REACTION_CONDITIONS, analyzeOligo, dimer } from '@/lib/sequence'
+import type { OligoAnalysis, ReactionConditions, SecondaryStructure } from '@/lib/sequence'
+import type { Oligo, OligoRole } from '@/lib/types'
+
+// Compatibility check of the oligos assigned to one assay: Tm spread of the primers,
+// Tm offset of the probe and cross-dimers between every pair of oligos.
+// Oligos without a role are only checked for cross-dimers.
+
+// Thresholds for warnings
+export const MAX_PRIMER_TM_SPREAD = 5 // °C between the coolest and warmest primer
+export const MIN_PROBE_TM_OFFSET = 5 // °C the probe should melt above the warmest primer
+export const MIN_CROSS_DIMER_DELTA_G = -9 // kcal/mol; more stable duplexes compete with the target
+
+export interface CheckedOligo {
+  oligo: Oligo
+  role: OligoRole | null
+  analysis: OligoAnalysis
+}
+
+export interface CrossDimer {
+  oligoA: Oligo
+  oligoB: Oligo
+  dimer: SecondaryStructure | null
+}
+
+export interface AssayCheck {
+  oligos: CheckedOligo[]
+  primerTmSpread: number | null
+  probeTmOffset: number | null // lowest probe Tm minus highest primer Tm
+  crossDimers: CrossDimer[]
+  warnings: string[]
+}
+
+export function checkAssay(oligos: Oligo[], conditions: ReactionConditions = DEFAULT_REACTION_CONDITIONS): AssayCheck {
+  const checked: CheckedOligo[] = oligos.map((oligo) => ({
+    oligo,
+    role: oligo.role,
+    analysis: analyzeOligo(oligo.dna_sequence, conditions),
+  }))
+  const warnings: string[] = checked
+    .filter((c) => c.role === null)
+    .map((c) => `${c.oligo.sequence_name}: role not set, not included in the Tm checks`)
+
+  const primers = checked.filter((c) => c.role === 'forward' || c.role === 'reverse')
+  const probes = checked.filter((c) => c.role === 'probe')
+  const primerTms = primers.filter((c) => c.analysis.tmMin !== null)
+  const probeTms = probes.filter((c) => c.analysis.tmMin !== null)
+
+  let primerTmSpread: number | null = null
+  if (primerTms.length >= 2) {
+    primerTmSpread =
+      Math.max(...primerTms.map((c) => c.analysis.tmMax as number)) -
+      Math.min(...primerTms.map((c) => c.analysis.tmMin as number))
+    if (primerTmSpread > MAX_PRIMER_TM_SPREAD) {
+      warnings.push(
+        `Primer Tm spread is ${primerTmSpread.toFixed(1)} °C (more than ${MAX_PRIMER_TM_SPREAD} °C)`
+      )
+    }
+  }
+
+  let probeTmOffset: number | null = null
+  if (primerTms.length > 0 && probeTms.length > 0) {
+    probeTmOffset =
+      Math.min(...probeTms.map((c) => c.analysis.tmMin as number)) -
+      Math.max(...primerTms.map((c) => c.analysis.tmMax as number))
+    if (probeTmOffset < MIN_PROBE_TM_OFFSET) {
+      warnings.push(
+        `Probe Tm is only ${probeTmOffset.toFixed(1)} °C above the primers (at least ${MIN_PROBE_TM_OFFSET} °C recommended)`
+      )
+    }
+  }
+
+  const crossDimers: CrossDimer[] = []
+  for (let i = 0; i < oligos.length; i++) {
+    for (let j = i + 1; j < oligos.length; j++) {
+      const result = dimer(oligos[i].dna_sequence, oligos[j].dna_sequence, conditions)
+      crossDimers.push({ oligoA: oligos[i], oligoB: oligos[j], dimer: result })
+      if (result && result.deltaG < MIN_CROSS_DIMER_DELTA_G) {
+        warnings.push(
+          `Cross-dimer ${oligos[i].sequence_name} / ${oligos[j].sequence_name}: ${result.deltaG.toFixed(1)} kcal/mol`
+        )
+      }
+    }
+  }
+
+  return { oligos: checked, primerTmSpread, probeTmOffset, crossDimers, warnings }
+}
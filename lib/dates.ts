@@ -0,0 +1,53 @@
+// Helpers for the YYYY-MM-DD date strings used by BLAST job date ranges.
+// All calculations are done in local time so "today" matches the user's calendar.
+
+export function toDateString(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+export function todayString(): string {
+  return toDateString(new Date())
+}
+
+// Parse YYYY-MM-DD as a local date; returns null for anything else
+export function parseDateString(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim())
+  if (!match) {
+    return null
+  }
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  // Reject dates like 2024-02-31 that Date silently rolls over
+  if (date.getMonth() !== Number(match[2]) - 1) {
+    return null
+  }
+  return date
+}
+
+export function addDays(value: string, days: number): string {
+  const date = parseDateString(value)
+  if (!date) {
+    return value
+  }
+  date.setDate(date.getDate() + days)
+  return toDateString(date)
+}
+
+// Returns an error message for an invalid job date range, or null if it is valid
+export function validateDateRange(dateFrom: string, dateTo: string): string | null {
+  const from = parseDateString(dateFrom)
+  const to = parseDateString(dateTo)
+  if (!from) {
+    return 'Date From must be a valid date'
+  }
+  if (!to) {
+    return 'Date To must be a valid date'
+  }
+  if (from > to) {
+    return 'Date From must not be after Date To'
+  }
+  const today = parseDateString(todayString()) as Date
+  if (to > today) {
+    return 'Date To must not be in the future'
+  }
+  return null
+}
@@ -0,0 +1,109 @@
+import { parseDateString } from '@/lib/dates'
+
+// Pre-flight size estimates for BLAST aligner jobs.
+// The sequence count comes from a SequenceCountSource: NCBI via /api/sequence-count by default,
+// or a deterministic mock when NEXT_PUBLIC_ESTIMATE_SOURCE=mock (local development without network).
+
+export interface SequenceCountQuery {
+  taxid: number
+  dateFrom: string
+  dateTo: string
+}
+
+export interface SequenceCountSource {
+  name: string
+  countSequences(query: SequenceCountQuery): Promise<number>
+}
+
+export const ncbiSequenceCountSource: SequenceCountSource = {
+  name: 'NCBI nucleotide',
+  async countSequences({ taxid, dateFrom, dateTo }) {
+    const params = new URLSearchParams({ taxid: String(taxid), dateFrom, dateTo })
+    const response = await fetch(`/api/sequence-count?${params.toString()}`)
+    if (!response.ok) {
+      // The route answers with { error }, but a proxy or server error page may not be JSON
+      const data = await response.json().catch(() => null)
+      throw new Error(data?.error || `Failed to fetch sequence count (HTTP ${response.status})`)
+    }
+    const data = await response.json()
+    return Number(data.count)
+  },
+}
+
+// Same taxid and range always give the same count, roughly proportional to the range length
+export const mockSequenceCountSource: SequenceCountSource = {
+  name: 'Mock',
+  async countSequences({ taxid, dateFrom, dateTo }) {
+    const from = parseDateString(dateFrom)
+    const to = parseDateString(dateTo)
+    if (!from || !to) {
+      throw new Error('Invalid date range')
+    }
+    const days = Math.max(Math.round((to.getTime() - from.getTime()) / 86400000) + 1, 0)
+    const perDay = Math.abs(Math.imul(taxid, 2654435761)) % 200 // pseudo-random 0-199 sequences per day
+    return days * perDay
+  },
+}
+
+export function getSequenceCountSource(): SequenceCountSource {
+  return process.env.NEXT_PUBLIC_ESTIMATE_SOURCE === 'mock' ? mockSequenceCountSource : ncbiSequenceCountSource
+}
+
+export type RuntimeClass = 'short' | 'medium' | 'long' | 'very long'
+
+// Rough classes based on the number of sequence x oligo alignments
+const RUNTIME_CLASSES: Array<{ maxAlignments: number; runtimeClass: RuntimeClass }> = [
+  { maxAlignments: 5000, runtimeClass: 'short' },
+  { maxAlignments: 50000, runtimeClass: 'medium' },
+  { maxAlignments: 500000, runtimeClass: 'long' },
+]
+
+export const RUNTIME_CLASS_LABELS: Record<RuntimeClass, string> = {
+  short: 'Short (minutes)',
+  medium: 'Medium (< 1 hour)',
+  long: 'Long (hours)',
+  'very long': 'Very long (> 1 day)',
+}
+
+export function getRuntimeClass(sequenceCount: number, oligoCount: number): RuntimeClass {
+  const alignments = sequenceCount * Math.max(oligoCount, 1)
+  const match = RUNTIME_CLASSES.find((c) => alignments <= c.maxAlignments)
+  return match ? match.runtimeClass : 'very long'
+}
+
+export interface JobEstimate {
+  dateFrom: string
+  dateTo: string
+  sequenceCount: number | null // null if the assay has no target taxid
+  oligoCount: number
+  runtimeClass: RuntimeClass | null
+  error: string | null
+}
+
+export async function estimateJob(
+  source: SequenceCountSource,
+  taxid: number | null,
+  oligoCount: number,
+  dateFrom: string,
+  dateTo: string
+): Promise<JobEstimate> {
+  const estimate: JobEstimate = {
+    dateFrom,
+    dateTo,
+    sequenceCount: null,
+    oligoCount,
+    runtimeClass: null,
+    error: null,
+  }
+  if (taxid === null) {
+    estimate.error = 'Assay has no target taxid'
+    return estimate
+  }
+  try {
+    estimate.sequenceCount = await source.countSequences({ taxid, dateFrom, dateTo })
+    estimate.runtimeClass = getRuntimeClass(estimate.sequenceCount, oligoCount)
+  } catch (err: any) {
+    estimate.error = err.message || 'Failed to estimate job size'
+  }
+  return estimate
+}
@@ -0,0 +1,163 @@
+import { compareOligoRoles } from '@/lib/oligoRoles'
+import type { BlastAlignerJob, BlastJobParameters, OligoRole, OligoStats, OligoStrand, ResultData } from '@/lib/types'
+
+// Helpers for working with BLAST aligner jobs and their results
+
+// Parameters used when the user has not chosen a preset
+export const DEFAULT_BLAST_PARAMETERS: BlastJobParameters = {
+  identity: 95.0,
+  coverage: 80.0,
+  matchScore: 2.0,
+  mismatchScore: -1.0,
+  openGap: -0.5,
+  extendGap: -0.1,
+  oligoMinCover: 1,
+}
+
+export type CompletedJob = BlastAlignerJob & { alignjob_result: ResultData }
+
+// A job is completed when the aligner finished and stored a successful result
+export function isCompletedJob(job: BlastAlignerJob): job is CompletedJob {
+  return (
+    job.alignjob_status === 'done' &&
+    job.alignjob_result !== null &&
+    job.alignjob_result.success !== false
+  )
+}
+
+// Lifecycle of a job as shown to the user. The database uses 'scheduled', 'working' and
+// 'done'; a done job whose result reports success: false is shown as failed.
+// Any other database status is shown as unknown.
+export type JobLifecycleStatus = 'queued' | 'running' | 'finished' | 'failed' | 'unknown'
+
+export function getJobLifecycleStatus(job: BlastAlignerJob): JobLifecycleStatus {
+  switch (job.alignjob_status) {
+    case 'scheduled':
+      return 'queued'
+    case 'working':
+      return 'running'
+    case 'done':
+      return job.alignjob_result && job.alignjob_result.success === false ? 'failed' : 'finished'
+    case 'failed':
+    case 'error':
+      return 'failed'
+    default:
+      return 'unknown'
+  }
+}
+
+// Terminal jobs are not polled. Unknown statuses count as terminal, otherwise a job stuck in an
+// unexpected status would be polled forever
+export function isTerminalStatus(status: JobLifecycleStatus): boolean {
+  return status === 'finished' || status === 'failed' || status === 'unknown'
+}
+
+// Query string for /blast-planner that pre-fills the form with the parameters of a job
+// and preselects the planning entry of the job's assay
+export function plannerPrefillQuery(job: BlastAlignerJob): string {
+  const params = new URLSearchParams({
+    assay: String(job.alignjob_assay_id),
+    dateFrom: job.alignjob_date_from,
+    dateTo: job.alignjob_date_to,
+  })
+  const optional: Array<[string, number | null]> = [
+    ['identity', job.alignjob_identity],
+    ['coverage', job.alignjob_coverage],
+    ['matchScore', job.alignjob_match_score],
+    ['mismatchScore', job.alignjob_mismatch_score],
+    ['openGap', job.alignjob_opengap],
+    ['extendGap', job.alignjob_extendgap],
+    ['oligoMinCover', job.alignjob_oligo_min_cover],
+  ]
+  optional.forEach(([key, value]) => {
+    if (value !== null) {
+      params.set(key, String(value))
+    }
+  })
+  return params.toString()
+}
+
+// Oldest date range first (by date_from, then date_to)
+export function sortJobsByDateRange<T extends BlastAlignerJob>(jobs: T[]): T[] {
+  return [...jobs].sort(
+    (a, b) =>
+      a.alignjob_date_from.localeCompare(b.alignjob_date_from) ||
+      a.alignjob_date_to.localeCompare(b.alignjob_date_to) ||
+      a.align_id - b.align_id
+  )
+}
+
+export interface OligoStatsRow {
+  name: string
+  stats: OligoStats
+  role: OligoRole | null
+  strand: OligoStrand | null // expected match strand
+}
+
+// Per-oligo statistics with the role and strand submitted with the job, grouped by role
+export function perOligoStatsByRole(job: BlastAlignerJob, result: ResultData): OligoStatsRow[] {
+  return Object.entries(result.per_oligo_stats || {})
+    .map(([name, stats]) => {
+      const oligo = job.alignjob_oligos.find((o) => o.id === name)
+      return { name, stats, role: oligo?.role ?? null, strand: oligo?.strand ?? null }
+    })
+    .sort((a, b) => compareOligoRoles(a.role, b.role))
+}
+
+export interface JobSummary {
+  alignId: number
+  dateFrom: string
+  dateTo: string
+  alignmentRate: number
+  totalBlastHits: number
+  sequencesAligned: number
+  distinctPatterns: number
+  perfectMatchSequences: number // sequences whose pattern has no mismatches
+  mismatchSequences: number
+  oligoMatchRates: Record<string, number>
+}
+
+export function summarizeJob(job: CompletedJob): JobSummary {
+  const result = job.alignjob_result
+  const patterns = Array.isArray(result.patterns) ? result.patterns : []
+  let perfectMatchSequences = 0
+  let mismatchSequences = 0
+  patterns.forEach((pattern) => {
+    if (Number(pattern.total_mismatches) === 0) {
+      perfectMatchSequences += Number(pattern.count)
+    } else {
+      mismatchSequences += Number(pattern.count)
+    }
+  })
+
+  const oligoMatchRates: Record<string, number> = {}
+  Object.entries(result.per_oligo_stats || {}).forEach(([name, stats]) => {
+    oligoMatchRates[name] = Number(stats.match_rate)
+  })
+
+  return {
+    alignId: job.align_id,
+    dateFrom: job.alignjob_date_from,
+    dateTo: job.alignjob_date_to,
+    alignmentRate: Number(result.statistics?.alignment_rate ?? 0),
+    totalBlastHits: Number(result.statistics?.total_blast_hits ?? 0),
+    sequencesAligned: Number(result.statistics?.sequences_aligned ?? 0),
+    distinctPatterns: patterns.length,
+    perfectMatchSequences,
+    mismatchSequences,
+    oligoMatchRates,
+  }
+}
+
+// Union of oligo names over several summaries, in first-seen order
+export function collectOligoNames(summaries: JobSummary[]): string[] {
+  const names: string[] = []
+  summaries.forEach((summary) => {
+    Object.keys(summary.oligoMatchRates).forEach((name) => {
+      if (!names.includes(name)) {
+        names.push(name)
+      }
+    })
+  })
+  return names
+}
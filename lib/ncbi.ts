@@ -0,0 +1,9 @@
+// Settings shared by the API routes that call NCBI E-utilities
+
+// IMPORTANT: Replace 'your-email@example.com' with your actual email address
+// This email is required by NCBI for API usage tracking
+export const NCBI_EMAIL = 'dnoerz@uke.de'
+
+export const NCBI_TOOL = 'diversity-surveillance-tool'
+
+export const EUTILS_BASE = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils'
@@ -0,0 +1,28 @@
+import type { OligoRole, OligoStrand } from '@/lib/types'
+
+export const OLIGO_ROLES: OligoRole[] = ['forward', 'reverse', 'probe']
+
+export const OLIGO_ROLE_LABELS: Record<OligoRole, string> = {
+  forward: 'Forward primer',
+  reverse: 'Reverse primer',
+  probe: 'Probe',
+}
+
+export const OLIGO_STRAND_LABELS: Record<OligoStrand, string> = {
+  sense: 'Sense',
+  antisense: 'Antisense',
+}
+
+// Forward primers match the sense strand and reverse primers the antisense strand;
+// probes can be designed on either strand
+export function defaultStrandForRole(role: OligoRole | null): OligoStrand | null {
+  if (role === 'forward') return 'sense'
+  if (role === 'reverse') return 'antisense'
+  return null
+}
+
+// Sort order for grouping by role: primers, probes, then oligos without a role
+export function compareOligoRoles(a: OligoRole | null, b: OligoRole | null): number {
+  const rank = (role: OligoRole | null) => (role === null ? OLIGO_ROLES.length : OLIGO_ROLES.indexOf(role))
+  return rank(a) - rank(b)
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import alignjobResult from '@/lib/__fixtures__/alignjobResult.json'
+import malformedPatterns from '@/lib/__fixtures__/malformedPatterns.json'
+import { PatternParseError, formatSegment, parsePattern, safeParsePattern } from '@/lib/patterns'
+import type { ResultData } from '@/lib/types'
+
+const result = alignjobResult as ResultData
+const oligoCount = Object.keys(result.per_oligo_stats).length
+
+describe('parsePattern', () => {
+  it('parses every pattern of a real result payload', () => {
+    result.patterns.forEach(({ pattern }) => {
+      expect(parsePattern(pattern, oligoCount).segments).toHaveLength(oligoCount)
+    })
+  })
+
+  it('parses perfect fwd/rev segments', () => {
+    const parsed = parsePattern(result.patterns[0].pattern, oligoCount)
+    expect(parsed.mismatchCount).toBe(0)
+    expect(parsed.gapCount).toBe(0)
+    expect(parsed.segments.map((s) => s.covered && s.strand)).toEqual(['fwd', 'rev', 'fwd'])
+  })
+
+  it('reports mismatch positions and target bases', () => {
+    const parsed = parsePattern(result.patterns[1].pattern, oligoCount)
+    expect(parsed.mismatchCount).toBe(result.patterns[1].total_mismatches)
+    expect(parsed.segments[0]).toMatchObject({ covered: true, mismatches: [{ position: 4, base: 'A' }], gaps: [] })
+    expect(parsed.segments[1]).toMatchObject({ covered: true, mismatches: [] })
+    expect(parsed.segments[2]).toMatchObject({ covered: true, mismatches: [{ position: 11, base: 'T' }] })
+  })
+
+  it('reports gaps and not-covered segments', () => {
+    const parsed = parsePattern(result.patterns[2].pattern, oligoCount)
+    expect(parsed.gapCount).toBe(1)
+    expect(parsed.segments[1]).toMatchObject({ covered: true, strand: 'rev', gaps: [10], mismatches: [] })
+    expect(parsed.segments[2]).toEqual({ covered: false })
+  })
+
+  it('does not require spaces around the separator', () => {
+    const parsed = parsePattern('....(fwd)|..-.(rev)|not covered', 3)
+    expect(parsed.segments.map(formatSegment)).toEqual(['....', '..-.', 'not covered'])
+  })
+
+  it('normalizes lowercase bases and strands', () => {
+    const parsed = parsePattern('..g.(FWD)')
+    expect(parsed.segments[0]).toMatchObject({ strand: 'fwd', mismatches: [{ position: 2, base: 'G' }] })
+  })
+
+  it('does not check the segment count without expectedSegments', () => {
+    expect(parsePattern('....(fwd)').segments).toHaveLength(1)
+  })
+
+  malformedPatterns.forEach(({ label, pattern, expectedSegments, segmentIndex }) => {
+    it(`throws PatternParseError for ${label}`, () => {
+      let error: unknown
+      try {
+        parsePattern(pattern, expectedSegments)
+      } catch (err) {
+        error = err
+      }
+      expect(error).toBeInstanceOf(PatternParseError)
+      expect((error as PatternParseError).pattern).toBe(pattern)
+      expect((error as PatternParseError).segmentIndex).toBe(segmentIndex)
+    })
+  })
+
+  it('names the unknown strand in the message', () => {
+    expect(() => parsePattern('....(sense)')).toThrow('unknown strand "sense"')
+  })
+})
+
+describe('safeParsePattern', () => {
+  it('returns the parsed pattern for valid input', () => {
+    const parsed = safeParsePattern(result.patterns[1].pattern, oligoCount)
+    expect(parsed.ok).toBe(true)
+    expect(parsed.ok && parsed.value).toEqual(parsePattern(result.patterns[1].pattern, oligoCount))
+  })
+
+  malformedPatterns.forEach(({ label, pattern, expectedSegments }) => {
+    it(`returns the error instead of throwing for ${label}`, () => {
+      const parsed = safeParsePattern(pattern, expectedSegments)
+      expect(parsed.ok).toBe(false)
+      expect(!parsed.ok && parsed.error).toBeInstanceOf(PatternParseError)
+    })
+  })
+
+  it('reports an empty pattern', () => {
+    const parsed = safeParsePattern('', 3)
+    expect(!parsed.ok && parsed.error.message).toBe('Pattern is empty')
+  })
+})
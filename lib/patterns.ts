@@ -0,0 +1,151 @@
+// Parser for the alignment pattern strings in alignjob_result.patterns[].pattern
+//
+// Grammar (whitespace around '|' is optional):
+//   pattern    := segment ( '|' segment )*
+//   segment    := alignment '(' strand ')' | notCovered
+//   alignment  := [.\-ACGTURYSWKMBDHVN]+      '.' = match, '-' = gap, letter = base found in the target
+//   strand     := 'fwd' | 'rev'
+//   notCovered := 'not covered'
+//
+// Example: "....A...........(fwd) | ..........-.......(rev) | not covered"
+
+export type Strand = 'fwd' | 'rev'
+
+export interface Mismatch {
+  position: number // 0-based position within the oligo
+  base: string // base found in the target sequence
+}
+
+export interface CoveredSegment {
+  covered: true
+  alignment: string
+  strand: Strand
+  mismatches: Mismatch[]
+  gaps: number[] // 0-based positions of '-'
+}
+
+export interface NotCoveredSegment {
+  covered: false
+}
+
+export type PatternSegment = CoveredSegment | NotCoveredSegment
+
+export interface ParsedPattern {
+  segments: PatternSegment[]
+  mismatchCount: number
+  gapCount: number
+}
+
+export class PatternParseError extends Error {
+  pattern: string
+  segmentIndex: number | null
+
+  constructor(message: string, pattern: string, segmentIndex: number | null = null) {
+    super(message)
+    this.name = 'PatternParseError'
+    this.pattern = pattern
+    this.segmentIndex = segmentIndex
+  }
+}
+
+const SEGMENT_RE = /^([^()\s]+)\s*\(\s*([A-Za-z]+)\s*\)$/
+const ALIGNMENT_CHARS_RE = /^[.\-ACGTURYSWKMBDHVN]+$/i
+const NOT_COVERED = 'not covered'
+
+function parseSegment(raw: string, pattern: string, index: number): PatternSegment {
+  const text = raw.trim()
+  if (!text) {
+    throw new PatternParseError(`Segment ${index + 1} is empty`, pattern, index)
+  }
+
+  if (text === NOT_COVERED) {
+    return { covered: false }
+  }
+
+  const match = text.match(SEGMENT_RE)
+  if (!match) {
+    throw new PatternParseError(
+      `Segment ${index + 1} ("${text}") is not of the form <alignment>(fwd|rev)`,
+      pattern,
+      index
+    )
+  }
+
+  const [, alignment, strandText] = match
+  const strand = strandText.toLowerCase()
+  if (strand !== 'fwd' && strand !== 'rev') {
+    throw new PatternParseError(
+      `Segment ${index + 1} has unknown strand "${strandText}" (expected fwd or rev)`,
+      pattern,
+      index
+    )
+  }
+
+  if (!ALIGNMENT_CHARS_RE.test(alignment)) {
+    throw new PatternParseError(
+      `Segment ${index + 1} contains invalid alignment characters in "${alignment}"`,
+      pattern,
+      index
+    )
+  }
+
+  const mismatches: Mismatch[] = []
+  const gaps: number[] = []
+  alignment.split('').forEach((char, position) => {
+    if (char === '-') {
+      gaps.push(position)
+    } else if (char !== '.') {
+      mismatches.push({ position, base: char.toUpperCase() })
+    }
+  })
+
+  return { covered: true, alignment, strand, mismatches, gaps }
+}
+
+// Parse a pattern string. Throws PatternParseError if the pattern does not follow the grammar
+// or, when expectedSegments is given, does not contain exactly one segment per oligo.
+export function parsePattern(pattern: string, expectedSegments?: number): ParsedPattern {
+  if (typeof pattern !== 'string' || !pattern.trim()) {
+    throw new PatternParseError('Pattern is empty', String(pattern ?? ''))
+  }
+
+  const segments = pattern.split('|').map((raw, idx) => parseSegment(raw, pattern, idx))
+
+  if (expectedSegments !== undefined && segments.length !== expectedSegments) {
+    throw new PatternParseError(
+      `Pattern has ${segments.length} segment(s) but the job has ${expectedSegments} oligo(s)`,
+      pattern
+    )
+  }
+
+  let mismatchCount = 0
+  let gapCount = 0
+  segments.forEach((segment) => {
+    if (segment.covered) {
+      mismatchCount += segment.mismatches.length
+      gapCount += segment.gaps.length
+    }
+  })
+
+  return { segments, mismatchCount, gapCount }
+}
+
+// Non-throwing variant for rendering code that wants to show malformed patterns inline
+export function safeParsePattern(
+  pattern: string,
+  expectedSegments?: number
+): { ok: true; value: ParsedPattern } | { ok: false; error: PatternParseError } {
+  try {
+    return { ok: true, value: parsePattern(pattern, expectedSegments) }
+  } catch (err) {
+    if (err instanceof PatternParseError) {
+      return { ok: false, error: err }
+    }
+    throw err
+  }
+}
+
+// Text representation of a single segment (used for CSV export)
+export function formatSegment(segment: PatternSegment): string {
+  return segment.covered ? segment.alignment : NOT_COVERED
+}
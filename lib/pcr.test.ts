@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+import { MAX_PCR_MISMATCHES, runInSilicoPcr } from '@/lib/pcr'
+import { reverseComplement } from '@/lib/sequence'
+import type { Oligo, OligoRole, OligoStrand } from '@/lib/types'
+
+// CDC 2019-nCoV N1 oligos on a hand-built amplicon (1-based positions):
+// forward 6-25 (sense), probe 29-52 (sense), reverse 57-80 (antisense)
+const FORWARD = 'GACCCCAAAATCAGCGAAAT'
+const PROBE = 'ACCCCGCATTACGTTTGGTGGACC'
+const REVERSE = 'TCTGGTTACTGCCAGTTGAATCTG'
+const AMPLICON = 'TTTTT' + FORWARD + 'GCA' + PROBE + 'AGAC' + reverseComplement(REVERSE) + 'TTTTT'
+
+let nextId = 1
+function oligo(sequence: string, role: OligoRole | null, strand: OligoStrand | null = null): Oligo {
+  const id = nextId++
+  return {
+    oligo_id: id,
+    sequence_name: `oligo${id}`,
+    dna_sequence: sequence,
+    created_at: '2024-03-01T10:00:00+00:00',
+    assay_id: 1,
+    role,
+    strand,
+  }
+}
+
+// Replace the base at a 1-based amplicon position
+function substitute(template: string, position: number, base: string): string {
+  return template.substring(0, position - 1) + base + template.substring(position)
+}
+
+const assayOligos = () => [oligo(FORWARD, 'forward'), oligo(REVERSE, 'reverse'), oligo(PROBE, 'probe')]
+
+describe('runInSilicoPcr', () => {
+  it('maps oligos on both strands at exact positions', () => {
+    const { mappings } = runInSilicoPcr(assayOligos(), AMPLICON)
+    expect(mappings.map((m) => m.site && [m.site.start, m.site.end, m.site.strand])).toEqual([
+      [6, 25, 'sense'],
+      [57, 80, 'antisense'],
+      [29, 52, 'sense'],
+    ])
+    mappings.forEach((m) => {
+      expect(m.site?.mismatches).toEqual([])
+      expect(m.site?.alignment).toBe('.'.repeat(m.oligo.dna_sequence.length))
+      expect(m.siteCount).toBe(1)
+      expect(m.warnings).toEqual([])
+    })
+  })
+
+  it('predicts the product from the sense and antisense primer', () => {
+    const [forward, reverse, probe] = assayOligos()
+    const { products } = runInSilicoPcr([forward, reverse, probe], AMPLICON)
+    expect(products).toEqual([{ forward, reverse, start: 6, end: 80, length: 75 }])
+  })
+
+  it('forms a product for every sense x antisense primer pair, longest first', () => {
+    const [forward, reverse] = assayOligos()
+    const nested = oligo(AMPLICON.substring(30, 50), 'forward')
+    const { products } = runInSilicoPcr([nested, forward, reverse], AMPLICON)
+    expect(products.map((p) => [p.forward.oligo_id, p.start, p.end, p.length])).toEqual([
+      [forward.oligo_id, 6, 80, 75],
+      [nested.oligo_id, 31, 80, 50],
+    ])
+  })
+
+  it('reports mismatch positions within the oligo on the sense strand', () => {
+    // Oligo position 4 of the forward primer is amplicon position 10
+    const template = substitute(AMPLICON, 10, 'G')
+    const [forward] = runInSilicoPcr(assayOligos(), template).mappings
+    expect(forward.site).toMatchObject({ start: 6, end: 25, mismatches: [4], alignment: '....G...............' })
+  })
+
+  it("reports mismatch positions from the oligo's 5' end on the antisense strand", () => {
+    // Amplicon position 57 pairs with the 3' end (position 23) of the reverse primer
+    const template = substitute(AMPLICON, 57, 'G')
+    const [, reverse] = runInSilicoPcr(assayOligos(), template).mappings
+    expect(reverse.site).toMatchObject({ start: 57, end: 80, strand: 'antisense', mismatches: [23] })
+    expect(reverse.site?.alignment).toBe('.'.repeat(23) + 'C')
+    expect(reverse.warnings).toEqual(["1 mismatch(es) within 5 nt of the 3' end"])
+  })
+
+  it('matches IUPAC codes in oligo and amplicon', () => {
+    const degenerate = oligo('RACCCCAAAATCAGCGAAAN', 'forward')
+    const template = substitute(AMPLICON, 15, 'N')
+    const [mapping] = runInSilicoPcr([degenerate, oligo(REVERSE, 'reverse')], template).mappings
+    expect(mapping.site).toMatchObject({ start: 6, end: 25, mismatches: [] })
+  })
+
+  it(`maps with up to ${MAX_PCR_MISMATCHES} mismatches and not with more`, () => {
+    const threeMismatches = [7, 12, 17].reduce((t, position) => substitute(t, position, 'G'), AMPLICON)
+    const [forward] = runInSilicoPcr(assayOligos(), threeMismatches).mappings
+    expect(forward.site?.mismatches).toEqual([1, 6, 11])
+
+    const fourMismatches = substitute(threeMismatches, 22, 'C')
+    const result = runInSilicoPcr(assayOligos(), fourMismatches)
+    expect(result.mappings[0].site).toBeNull()
+    expect(result.mappings[0].warnings).toEqual([`Does not map with ${MAX_PCR_MISMATCHES} or fewer mismatches`])
+    expect(result.products).toEqual([])
+  })
+
+  it('warns about every primer when no pair gives a product', () => {
+    // Two sense primers cannot amplify
+    const { products, mappings } = runInSilicoPcr(
+      [oligo(FORWARD, 'forward'), oligo(AMPLICON.substring(30, 50), 'reverse')],
+      AMPLICON
+    )
+    expect(products).toEqual([])
+    expect(mappings[0].warnings).toEqual(['No primer pair gives a product'])
+    expect(mappings[1].warnings).toEqual(['Maps on the sense strand, expected antisense', 'No primer pair gives a product'])
+  })
+
+  it('warns about oligos mapping at more than one position', () => {
+    const template = AMPLICON + FORWARD
+    const [forward] = runInSilicoPcr(assayOligos(), template).mappings
+    expect(forward.siteCount).toBe(2)
+    expect(forward.site).toMatchObject({ start: 6, end: 25 })
+    expect(forward.warnings).toEqual(['Maps at 2 positions'])
+  })
+
+  it('warns about a probe outside every product', () => {
+    const probe = oligo(AMPLICON.substring(0, 15), 'probe')
+    const result = runInSilicoPcr([oligo(FORWARD, 'forward'), oligo(REVERSE, 'reverse'), probe], AMPLICON)
+    expect(result.mappings[2].site).toMatchObject({ start: 1, end: 15 })
+    expect(result.mappings[2].warnings).toEqual(['Binds outside the predicted product'])
+  })
+
+  it('checks the strand set on the oligo', () => {
+    const [forward] = runInSilicoPcr([oligo(FORWARD, 'forward', 'antisense')], AMPLICON).mappings
+    expect(forward.warnings).toContain('Maps on the sense strand, expected antisense')
+  })
+
+  it('does not use oligos without a role as primers', () => {
+    const unset = oligo(FORWARD, null)
+    const result = runInSilicoPcr([unset, oligo(REVERSE, 'reverse')], AMPLICON)
+    expect(result.mappings[0].site).toMatchObject({ start: 6, end: 25 })
+    expect(result.mappings[0].warnings).toEqual(['Role not set, not used as primer or probe'])
+    expect(result.products).toEqual([])
+    expect(result.mappings[1].warnings).toEqual(['No primer pair gives a product'])
+  })
+})
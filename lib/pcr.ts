@@ -0,0 +1,143 @@
+import { defaultStrandForRole } from '@/lib/oligoRoles'
+import { basesMatch, normalizeSequence, reverseComplement } from '@/lib/sequence'
+import type { Oligo, OligoRole, OligoStrand } from '@/lib/types'
+
+// In-silico PCR of the oligos of an assay against its reference amplicon.
+// Oligos are mapped on both strands allowing IUPAC ambiguity in oligo and amplicon;
+// primers mapped on the sense strand are extended downstream, antisense ones upstream.
+// Oligos without a role are mapped but not used as primer or probe.
+
+export const MAX_PCR_MISMATCHES = 3
+const THREE_PRIME_WINDOW = 5 // nt at the 3' end where mismatches affect extension most
+
+export interface BindingSite {
+  start: number // 1-based position on the amplicon (sense strand)
+  end: number
+  strand: OligoStrand
+  mismatches: number[] // 0-based positions within the oligo (5'->3')
+  alignment: string // oligo orientation; '.' = match, letter = amplicon base on the oligo's strand
+}
+
+export interface OligoMapping {
+  oligo: Oligo
+  role: OligoRole | null
+  site: BindingSite | null // best site, null if the oligo does not map
+  siteCount: number // number of sites within the mismatch limit
+  warnings: string[]
+}
+
+export interface PcrProduct {
+  forward: Oligo
+  reverse: Oligo
+  start: number
+  end: number
+  length: number
+}
+
+export interface InSilicoPcrResult {
+  mappings: OligoMapping[]
+  products: PcrProduct[] // longest first
+}
+
+// All sites of `oligo` on `template` with at most `maxMismatches` mismatches
+function findSites(oligo: string, template: string, maxMismatches: number): BindingSite[] {
+  const sites: BindingSite[] = []
+  const length = oligo.length
+  if (length === 0 || length > template.length) return sites
+  const strands: Array<{ strand: OligoStrand; probe: string }> = [
+    { strand: 'sense', probe: oligo },
+    { strand: 'antisense', probe: reverseComplement(oligo) },
+  ]
+  strands.forEach(({ strand, probe }) => {
+    for (let i = 0; i + length <= template.length; i++) {
+      const mismatches: number[] = []
+      for (let k = 0; k < length && mismatches.length <= maxMismatches; k++) {
+        if (!basesMatch(probe[k], template[i + k])) {
+          mismatches.push(strand === 'sense' ? k : length - 1 - k)
+        }
+      }
+      if (mismatches.length > maxMismatches) continue
+      const targetOnOligoStrand =
+        strand === 'sense' ? template.substring(i, i + length) : reverseComplement(template.substring(i, i + length))
+      const alignment = oligo
+        .split('')
+        .map((base, k) => (mismatches.includes(k) ? targetOnOligoStrand[k] : '.'))
+        .join('')
+      sites.push({ start: i + 1, end: i + length, strand, mismatches: mismatches.sort((a, b) => a - b), alignment })
+    }
+  })
+  return sites
+}
+
+function mapOligo(oligo: Oligo, template: string, maxMismatches: number): OligoMapping {
+  const role = oligo.role
+  const sites = findSites(normalizeSequence(oligo.dna_sequence), template, maxMismatches)
+  const site = sites.reduce<BindingSite | null>(
+    (best, s) => (!best || s.mismatches.length < best.mismatches.length ? s : best),
+    null
+  )
+  const warnings: string[] = []
+  if (role === null) {
+    warnings.push('Role not set, not used as primer or probe')
+  }
+  if (!site) {
+    warnings.push(`Does not map with ${maxMismatches} or fewer mismatches`)
+  } else {
+    const expectedStrand = oligo.strand ?? defaultStrandForRole(role)
+    if (expectedStrand && expectedStrand !== site.strand) {
+      warnings.push(`Maps on the ${site.strand} strand, expected ${expectedStrand}`)
+    }
+    const length = site.alignment.length
+    const threePrime = site.mismatches.filter((k) => k >= length - THREE_PRIME_WINDOW).length
+    if ((role === 'forward' || role === 'reverse') && threePrime > 0) {
+      warnings.push(`${threePrime} mismatch(es) within ${THREE_PRIME_WINDOW} nt of the 3' end`)
+    }
+    if (sites.length > 1) {
+      warnings.push(`Maps at ${sites.length} positions`)
+    }
+  }
+  return { oligo, role, site, siteCount: sites.length, warnings }
+}
+
+export function runInSilicoPcr(
+  oligos: Oligo[],
+  ampliconSeq: string,
+  maxMismatches: number = MAX_PCR_MISMATCHES
+): InSilicoPcrResult {
+  const template = normalizeSequence(ampliconSeq)
+  const mappings = oligos.map((oligo) => mapOligo(oligo, template, maxMismatches))
+
+  // Every sense primer upstream of an antisense primer gives a product
+  const primers = mappings.filter((m) => m.site && (m.role === 'forward' || m.role === 'reverse'))
+  const products: PcrProduct[] = []
+  primers
+    .filter((f) => f.site?.strand === 'sense')
+    .forEach((f) => {
+      primers
+        .filter((r) => r.site?.strand === 'antisense')
+        .forEach((r) => {
+          const start = (f.site as BindingSite).start
+          const end = (r.site as BindingSite).end
+          if (end >= start) {
+            products.push({ forward: f.oligo, reverse: r.oligo, start, end, length: end - start + 1 })
+          }
+        })
+    })
+  products.sort((a, b) => b.length - a.length)
+
+  if (products.length === 0 && primers.length > 0) {
+    primers.forEach((m) => m.warnings.push('No primer pair gives a product'))
+  }
+
+  // Probes have to bind inside a product
+  mappings
+    .filter((m) => m.site && m.role === 'probe' && products.length > 0)
+    .forEach((m) => {
+      const site = m.site as BindingSite
+      if (!products.some((p) => site.start >= p.start && site.end <= p.end)) {
+        m.warnings.push('Binds outside the predicted product')
+      }
+    })
+
+  return { mappings, products }
+}
@@ -0,0 +1,179 @@
+import { perOligoStatsByRole } from '@/lib/jobs'
+import { OLIGO_ROLE_LABELS, OLIGO_STRAND_LABELS } from '@/lib/oligoRoles'
+import { formatSegment, safeParsePattern } from '@/lib/patterns'
+import type { BlastAlignerJob, ResultData } from '@/lib/types'
+
+// Excel export of a BLAST aligner result, generated entirely in the browser.
+// exceljs is loaded on demand so it does not end up in the page bundle.
+
+const MONOSPACE_FONT = { name: 'Courier New', size: 10 }
+
+// Trigger a browser download for a blob
+export function downloadBlob(blob: Blob, filename: string) {
+  const link = document.createElement('a')
+  const url = URL.createObjectURL(blob)
+  link.setAttribute('href', url)
+  link.setAttribute('download', filename)
+  link.style.visibility = 'hidden'
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+// File name used for all exports of a job (extension without dot)
+export function resultFileName(job: BlastAlignerJob, assayName: string, extension: string) {
+  return `blast_result_${job.align_id}_${assayName.replace(/\s+/g, '_')}.${extension}`
+}
+
+// Job dates arrive as 'YYYY-MM-DD'; convert them to real date cells where possible
+function toDateCell(value: string): Date | string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value)
+  if (!match) {
+    return value
+  }
+  return new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])))
+}
+
+export async function buildResultWorkbook(job: BlastAlignerJob, result: ResultData, assayName: string) {
+  const ExcelJS = (await import('exceljs')).default
+  const workbook = new ExcelJS.Workbook()
+  workbook.created = new Date()
+
+  const headerFont = { bold: true }
+
+  // Job
+  const jobSheet = workbook.addWorksheet('Job')
+  jobSheet.columns = [
+    { header: 'Field', key: 'field', width: 20 },
+    { header: 'Value', key: 'value', width: 40 },
+  ]
+  jobSheet.addRows([
+    { field: 'Assay Name', value: assayName },
+    { field: 'Job ID', value: job.align_id },
+    { field: 'Status', value: job.alignjob_status },
+    { field: 'Date From', value: toDateCell(job.alignjob_date_from) },
+    { field: 'Date To', value: toDateCell(job.alignjob_date_to) },
+    { field: 'Created At', value: new Date(job.created_at) },
+  ])
+  jobSheet.getColumn('value').alignment = { horizontal: 'left' }
+  jobSheet.eachRow((row) => {
+    const cell = row.getCell('value')
+    if (cell.value instanceof Date) {
+      cell.numFmt = 'yyyy-mm-dd'
+    }
+  })
+
+  // Statistics
+  const statsSheet = workbook.addWorksheet('Statistics')
+  statsSheet.columns = [
+    { header: 'Statistic', key: 'statistic', width: 30 },
+    { header: 'Value', key: 'value', width: 15 },
+  ]
+  statsSheet.addRows([
+    { statistic: 'Alignment Rate (%)', value: Number(result.statistics.alignment_rate) },
+    { statistic: 'Total BLAST Hits', value: Number(result.statistics.total_blast_hits) },
+    { statistic: 'Sequences Aligned', value: Number(result.statistics.sequences_aligned) },
+    { statistic: 'Filtered BLAST Hits', value: Number(result.statistics.filtered_blast_hits) },
+    { statistic: 'Sequences with Min Matches', value: Number(result.statistics.sequences_with_min_matches) },
+  ])
+
+  // Per-Oligo
+  const oligoSheet = workbook.addWorksheet('Per-Oligo')
+  oligoSheet.columns = [
+    { header: 'Oligo Name', key: 'name', width: 25 },
+    { header: 'Role', key: 'role', width: 16 },
+    { header: 'Expected Strand', key: 'strand', width: 16 },
+    { header: 'Match Rate (%)', key: 'match_rate', width: 15 },
+    { header: 'Sense Matches', key: 'sense_matches', width: 15 },
+    { header: 'Antisense Matches', key: 'antisense_matches', width: 18 },
+    { header: 'Total Matches', key: 'total_matches', width: 15 },
+  ]
+  perOligoStatsByRole(job, result).forEach(({ name, stats, role, strand }) => {
+    oligoSheet.addRow({
+      name,
+      role: role ? OLIGO_ROLE_LABELS[role] : null,
+      strand: strand ? OLIGO_STRAND_LABELS[strand] : null,
+      match_rate: Number(stats.match_rate),
+      sense_matches: Number(stats.sense_matches),
+      antisense_matches: Number(stats.antisense_matches),
+      total_matches: Number(stats.total_matches),
+    })
+  })
+
+  // Parameters (empty cells for parameters that were not set)
+  const paramSheet = workbook.addWorksheet('Parameters')
+  paramSheet.columns = [
+    { header: 'Group', key: 'group', width: 28 },
+    { header: 'Parameter', key: 'parameter', width: 22 },
+    { header: 'Value', key: 'value', width: 15 },
+  ]
+  paramSheet.addRows([
+    { group: 'Input', parameter: 'TaxID', value: job.alignjob_taxid },
+    { group: 'BLAST Parameters', parameter: 'Identity (%)', value: job.alignjob_identity },
+    { group: 'BLAST Parameters', parameter: 'Coverage (%)', value: job.alignjob_coverage },
+    { group: 'Pairwise Aligner Parameters', parameter: 'Match Score', value: job.alignjob_match_score },
+    { group: 'Pairwise Aligner Parameters', parameter: 'Mismatch Score', value: job.alignjob_mismatch_score },
+    { group: 'Pairwise Aligner Parameters', parameter: 'Open Gap Penalty', value: job.alignjob_opengap },
+    { group: 'Pairwise Aligner Parameters', parameter: 'Extend Gap Penalty', value: job.alignjob_extendgap },
+    { group: 'Other Parameters', parameter: 'Oligo Min Cover', value: job.alignjob_oligo_min_cover },
+  ])
+
+  // Patterns: one alignment column per oligo, then count, mismatches and examples.
+  // Malformed patterns are written unsplit to the Raw Pattern column
+  const oligoNames = job.alignjob_oligos.map((o) => o.id)
+  const patternSheet = workbook.addWorksheet('Patterns')
+  patternSheet.columns = [
+    ...oligoNames.map((name, idx) => ({
+      header: name,
+      key: `oligo_${idx}`,
+      width: Math.max(job.alignjob_oligos[idx].sequence.length + 2, name.length + 2, 12),
+      style: { font: MONOSPACE_FONT },
+    })),
+    { header: 'Count', key: 'count', width: 10 },
+    { header: 'Total Mismatches', key: 'total_mismatches', width: 17 },
+    { header: 'Examples', key: 'examples', width: 50 },
+    { header: 'Raw Pattern', key: 'raw_pattern', width: 40, style: { font: MONOSPACE_FONT } },
+    { header: 'Parse Error', key: 'parse_error', width: 40 },
+  ]
+  // Second row: oligo sequences
+  patternSheet.addRow(
+    Object.fromEntries(job.alignjob_oligos.map((o, idx) => [`oligo_${idx}`, o.sequence]))
+  )
+  result.patterns.forEach((pattern) => {
+    const parsed = safeParsePattern(pattern.pattern, oligoNames.length > 0 ? oligoNames.length : undefined)
+    const row: Record<string, string | number> = {
+      count: Number(pattern.count),
+      total_mismatches: Number(pattern.total_mismatches),
+      examples: pattern.examples.join('; '),
+    }
+    if (parsed.ok) {
+      parsed.value.segments.forEach((segment, idx) => {
+        row[`oligo_${idx}`] = formatSegment(segment)
+      })
+    } else {
+      row.raw_pattern = pattern.pattern
+      row.parse_error = parsed.error.message
+    }
+    patternSheet.addRow(row)
+  })
+  patternSheet.getRow(2).font = { ...MONOSPACE_FONT, italic: true }
+
+  // Bold, frozen header row on every sheet
+  workbook.eachSheet((sheet) => {
+    sheet.getRow(1).font = headerFont
+    sheet.views = [{ state: 'frozen', ySplit: 1 }]
+  })
+  patternSheet.views = [{ state: 'frozen', ySplit: 2 }]
+
+  return workbook
+}
+
+export async function exportResultXlsx(job: BlastAlignerJob, result: ResultData, assayName: string) {
+  const workbook = await buildResultWorkbook(job, result, assayName)
+  const buffer = await workbook.xlsx.writeBuffer()
+  const blob = new Blob([buffer], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  })
+  downloadBlob(blob, resultFileName(job, assayName, 'xlsx'))
+}
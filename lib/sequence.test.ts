@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_REACTION_CONDITIONS,
+  MAX_VARIANTS,
+  analyzeOligo,
+  basesMatch,
+  expandSequence,
+  formatTm,
+  gcContent,
+  hairpin,
+  meltingTemperature,
+  reverseComplement,
+  selfDimer,
+} from '@/lib/sequence'
+
+// CDC 2019-nCoV N1 forward primer
+const N1_F = 'GACCCCAAAATCAGCGAAAT'
+// Self-complementary Dickerson-Drew dodecamer
+const PALINDROME = 'CGCGAATTCGCG'
+// 6 bp GC stem closed by a TTTT loop
+const STEM_LOOP = 'CGCGCGTTTTCGCGCG'
+const POLY_A = 'AAAAAAAAAAAAAAAAAAAA'
+
+// Reference Tm values from Biopython's Tm_NN with the SantaLucia & Hicks 2004 table (DNA_NN4),
+// von Ahsen Na+ equivalent and the SantaLucia 1998 entropy salt correction (saltcorr=5)
+describe('meltingTemperature', () => {
+  it('matches the nearest-neighbour Tm of a published primer under the default conditions', () => {
+    expect(meltingTemperature(N1_F)?.min).toBeCloseTo(58.87, 1)
+  })
+
+  it('matches the reference at 1 M Na+ without salt correction', () => {
+    const conditions = { sodiumMm: 1000, magnesiumMm: 0, dntpMm: 0, oligoNm: 250 }
+    expect(meltingTemperature(N1_F, conditions)?.min).toBeCloseTo(68.29, 1)
+  })
+
+  it('uses the total strand concentration and the symmetry correction for self-complementary oligos', () => {
+    expect(meltingTemperature(PALINDROME)?.min).toBeCloseTo(51.76, 1)
+  })
+
+  it('raises the Tm with free Mg2+', () => {
+    const tm = meltingTemperature(N1_F, { ...DEFAULT_REACTION_CONDITIONS, magnesiumMm: 3 })
+    expect(tm?.min).toBeCloseTo(60.73, 1)
+  })
+
+  it('returns the range over all variants of a degenerate oligo', () => {
+    const tm = meltingTemperature('GACCCCAAAATCAGCGAAAY')
+    const variants = ['GACCCCAAAATCAGCGAAAC', 'GACCCCAAAATCAGCGAAAT'].map((v) => meltingTemperature(v)?.min as number)
+    expect(tm).toEqual({ min: Math.min(...variants), max: Math.max(...variants) })
+  })
+})
+
+describe('gcContent', () => {
+  it('counts ambiguous bases with their expected GC fraction', () => {
+    expect(gcContent('GGCC')).toBe(100)
+    expect(gcContent('ATAT')).toBe(0)
+    expect(gcContent(N1_F)).toBe(45)
+    expect(gcContent('ACGN')).toBe(62.5)
+    expect(gcContent('')).toBe(0)
+  })
+})
+
+describe('IUPAC handling', () => {
+  it('reverse-complements ambiguous bases', () => {
+    expect(reverseComplement('acgt RYKMBDHVN')).toBe('NBDHVKMRYACGT')
+  })
+
+  it('matches bases that can be the same nucleotide', () => {
+    expect(basesMatch('R', 'A')).toBe(true)
+    expect(basesMatch('R', 'C')).toBe(false)
+    expect(basesMatch('N', 'T')).toBe(true)
+    expect(basesMatch('A', 'X')).toBe(false)
+  })
+
+  it('expands degenerate oligos up to MAX_VARIANTS', () => {
+    expect(expandSequence('ARN')).toHaveLength(8)
+    expect(expandSequence('N'.repeat(4))).toHaveLength(MAX_VARIANTS)
+    expect(expandSequence('N'.repeat(5))).toBeNull()
+  })
+})
+
+describe('secondary structures', () => {
+  it('finds the stem-loop of a hairpin oligo', () => {
+    const structure = hairpin(STEM_LOOP)
+    expect(structure?.structure).toEqual([STEM_LOOP, '((((((....))))))'])
+    // 5 GC stacks with salt correction plus a 4 nt loop (+3.5 kcal/mol)
+    expect(structure?.deltaG).toBeCloseTo(-6.42, 1)
+  })
+
+  it('gives a stable self-dimer for a palindrome', () => {
+    const structure = selfDimer(PALINDROME)
+    expect(structure?.deltaG).toBeLessThan(-10)
+    expect(structure?.structure).toEqual([
+      `5' ${PALINDROME} 3'`,
+      `   ${'|'.repeat(PALINDROME.length)}`,
+      `3' ${PALINDROME.split('').reverse().join('')} 5'`,
+    ])
+  })
+
+  it('finds no structure in poly-A', () => {
+    expect(hairpin(POLY_A)).toBeNull()
+    expect(selfDimer(POLY_A)).toBeNull()
+  })
+})
+
+describe('analyzeOligo', () => {
+  it('combines all values of a valid oligo', () => {
+    const analysis = analyzeOligo(` ${N1_F.toLowerCase()} `)
+    expect(analysis).toMatchObject({ length: 20, gcContent: 45, invalidSequence: false, tooManyVariants: false })
+    expect(formatTm(analysis)).toBe('58.9')
+  })
+
+  it('reports characters that are not IUPAC codes as invalid sequence', () => {
+    const analysis = analyzeOligo('ACGTXACGT')
+    expect(analysis).toMatchObject({ invalidSequence: true, tooManyVariants: false, tmMin: null, hairpin: null })
+    expect(formatTm(analysis)).toBe('n/a')
+  })
+
+  it('reports oligos with more than MAX_VARIANTS variants as too many variants', () => {
+    const analysis = analyzeOligo('ACGTNNNNNACGT')
+    expect(analysis).toMatchObject({ invalidSequence: false, tooManyVariants: true, tmMin: null, selfDimer: null })
+  })
+
+  it('accepts inosine', () => {
+    expect(analyzeOligo('ACGTIACGT')).toMatchObject({ invalidSequence: false, tooManyVariants: false })
+  })
+})
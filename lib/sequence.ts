@@ -0,0 +1,383 @@
+// Client-side oligo analysis: length, GC content, nearest-neighbour melting temperature,
+// hairpin and self-dimer stability.
+// Thermodynamics use the unified nearest-neighbour parameters (SantaLucia & Hicks 2004) with
+// a simplified structure model: only perfectly matched stems/duplexes, no mismatch or
+// dangling-end terms. Values are meant for screening, not as a replacement for a full folding tool.
+
+export interface ReactionConditions {
+  sodiumMm: number // monovalent cations (Na+, K+)
+  magnesiumMm: number
+  dntpMm: number // dNTPs bind Mg2+ and lower the free Mg2+ concentration
+  oligoNm: number
+}
+
+export const DEFAULT_REACTION_CONDITIONS: ReactionConditions = {
+  sodiumMm: 50,
+  magnesiumMm: 1.5,
+  dntpMm: 0.6,
+  oligoNm: 250,
+}
+
+export interface SecondaryStructure {
+  deltaG: number // kcal/mol at 37 °C
+  structure: string[] // text drawing, one line per entry
+}
+
+export interface OligoAnalysis {
+  length: number
+  gcContent: number // percent; ambiguous bases count with their expected GC fraction
+  tmMin: number | null // °C; min and max differ for degenerate oligos
+  tmMax: number | null
+  hairpin: SecondaryStructure | null // null if no stem can form
+  selfDimer: SecondaryStructure | null
+  invalidSequence: boolean // contains characters that are not IUPAC codes: Tm and structures are not computed
+  tooManyVariants: boolean // valid, but more than MAX_VARIANTS variants: Tm and structures are not computed
+}
+
+// Degenerate oligos with more variants than this are not analysed thermodynamically
+export const MAX_VARIANTS = 256
+
+const R = 1.987 // cal/(K mol)
+const T37 = 310.15
+
+const IUPAC_BASES: Record<string, string> = {
+  A: 'A',
+  C: 'C',
+  G: 'G',
+  T: 'T',
+  U: 'T',
+  R: 'AG',
+  Y: 'CT',
+  S: 'CG',
+  W: 'AT',
+  K: 'GT',
+  M: 'AC',
+  B: 'CGT',
+  D: 'AGT',
+  H: 'ACT',
+  V: 'ACG',
+  N: 'ACGT',
+  I: 'ACGT', // inosine pairs with any base
+}
+
+const COMPLEMENT: Record<string, string> = { A: 'T', C: 'G', G: 'C', T: 'A' }
+
+const IUPAC_COMPLEMENT: Record<string, string> = {
+  ...COMPLEMENT,
+  U: 'A',
+  R: 'Y',
+  Y: 'R',
+  S: 'S',
+  W: 'W',
+  K: 'M',
+  M: 'K',
+  B: 'V',
+  V: 'B',
+  D: 'H',
+  H: 'D',
+  N: 'N',
+  I: 'N',
+}
+
+// Nearest-neighbour ΔH (kcal/mol) and ΔS (cal/(K mol)), keyed by the 5'->3' dinucleotide
+const NN: Record<string, { dH: number; dS: number }> = {
+  AA: { dH: -7.6, dS: -21.3 },
+  TT: { dH: -7.6, dS: -21.3 },
+  AT: { dH: -7.2, dS: -20.4 },
+  TA: { dH: -7.2, dS: -21.3 },
+  CA: { dH: -8.5, dS: -22.7 },
+  TG: { dH: -8.5, dS: -22.7 },
+  GT: { dH: -8.4, dS: -22.4 },
+  AC: { dH: -8.4, dS: -22.4 },
+  CT: { dH: -7.8, dS: -21.0 },
+  AG: { dH: -7.8, dS: -21.0 },
+  GA: { dH: -8.2, dS: -22.2 },
+  TC: { dH: -8.2, dS: -22.2 },
+  CG: { dH: -10.6, dS: -27.2 },
+  GC: { dH: -9.8, dS: -24.4 },
+  GG: { dH: -8.0, dS: -19.9 },
+  CC: { dH: -8.0, dS: -19.9 },
+}
+
+const INIT = { dH: 0.2, dS: -5.7 }
+const TERMINAL_AT = { dH: 2.2, dS: 6.9 }
+const SYMMETRY_DS = -1.4
+
+// Hairpin loop ΔG37 (kcal/mol) by loop length; other lengths are extrapolated
+const HAIRPIN_LOOP_DG: Array<[number, number]> = [
+  [3, 3.5],
+  [4, 3.5],
+  [5, 3.3],
+  [6, 4.0],
+  [7, 4.2],
+  [8, 4.3],
+  [9, 4.5],
+  [10, 4.6],
+  [12, 5.0],
+  [14, 5.1],
+  [16, 5.3],
+  [18, 5.5],
+  [20, 5.7],
+  [25, 6.1],
+  [30, 6.3],
+]
+
+const MIN_HAIRPIN_LOOP = 3
+const MIN_STEM = 2
+
+export function normalizeSequence(sequence: string): string {
+  return sequence.replace(/\s/g, '').toUpperCase()
+}
+
+// Base-by-base complement, without reversing (e.g. for drawing the bottom strand)
+export function complement(sequence: string): string {
+  return normalizeSequence(sequence)
+    .split('')
+    .map((base) => IUPAC_COMPLEMENT[base] || 'N')
+    .join('')
+}
+
+export function reverseComplement(sequence: string): string {
+  return complement(sequence).split('').reverse().join('')
+}
+
+export function gcContent(sequence: string): number {
+  const seq = normalizeSequence(sequence)
+  if (seq.length === 0) return 0
+  let gc = 0
+  for (const base of seq) {
+    const options = IUPAC_BASES[base] || ''
+    if (options.length > 0) {
+      gc += options.replace(/[AT]/g, '').length / options.length
+    }
+  }
+  return (gc / seq.length) * 100
+}
+
+// True if every base is an IUPAC nucleotide code (or inosine)
+export function isIupacSequence(sequence: string): boolean {
+  return normalizeSequence(sequence)
+    .split('')
+    .every((base) => base in IUPAC_BASES)
+}
+
+// All unambiguous variants of a degenerate sequence, or null if there are more than `limit`
+export function expandSequence(sequence: string, limit = MAX_VARIANTS): string[] | null {
+  let variants = ['']
+  for (const base of normalizeSequence(sequence)) {
+    const options = IUPAC_BASES[base]
+    if (!options) return null
+    if (variants.length * options.length > limit) return null
+    variants = variants.flatMap((v) => options.split('').map((o) => v + o))
+  }
+  return variants
+}
+
+// Monovalent-equivalent cation concentration in M (von Ahsen et al. 2001)
+function sodiumEquivalent(conditions: ReactionConditions): number {
+  const freeMg = Math.max(conditions.magnesiumMm - conditions.dntpMm, 0)
+  return (conditions.sodiumMm + 120 * Math.sqrt(freeMg)) / 1000
+}
+
+// Entropy salt correction for a duplex of `pairs` base pairs
+function saltCorrection(pairs: number, conditions: ReactionConditions): number {
+  const sodium = sodiumEquivalent(conditions)
+  return sodium > 0 ? 0.368 * (pairs - 1) * Math.log(sodium) : 0
+}
+
+// True if two (possibly ambiguous) bases can be the same nucleotide
+export function basesMatch(a: string, b: string): boolean {
+  const optionsA = IUPAC_BASES[a]
+  const optionsB = IUPAC_BASES[b]
+  if (!optionsA || !optionsB) return false
+  return optionsA.split('').some((base) => optionsB.includes(base))
+}
+
+function isComplementary(a: string, b: string): boolean {
+  return COMPLEMENT[a] === b
+}
+
+// ΔH/ΔS of the perfectly matched stretch seq[start..end] (inclusive), without initiation
+function stackEnergy(seq: string, start: number, end: number): { dH: number; dS: number } {
+  let dH = 0
+  let dS = 0
+  for (let i = start; i < end; i++) {
+    const nn = NN[seq.substring(i, i + 2)]
+    dH += nn.dH
+    dS += nn.dS
+  }
+  return { dH, dS }
+}
+
+function terminalPenalty(bases: string[]): { dH: number; dS: number } {
+  const atEnds = bases.filter((b) => b === 'A' || b === 'T').length
+  return { dH: atEnds * TERMINAL_AT.dH, dS: atEnds * TERMINAL_AT.dS }
+}
+
+function deltaG37(dH: number, dS: number): number {
+  return dH - (T37 * dS) / 1000
+}
+
+// Tm of an unambiguous oligo annealed to its perfect complement
+function variantTm(seq: string, conditions: ReactionConditions): number | null {
+  if (seq.length < 2 || !/^[ACGT]+$/.test(seq)) return null
+  const selfComplementary = seq === reverseComplement(seq)
+  const stack = stackEnergy(seq, 0, seq.length - 1)
+  const terminal = terminalPenalty([seq[0], seq[seq.length - 1]])
+  const dH = stack.dH + INIT.dH + terminal.dH
+  const dS =
+    stack.dS + INIT.dS + terminal.dS + (selfComplementary ? SYMMETRY_DS : 0) + saltCorrection(seq.length, conditions)
+  const strandConcentration = (conditions.oligoNm * 1e-9) / (selfComplementary ? 1 : 4)
+  return (dH * 1000) / (dS + R * Math.log(strandConcentration)) - 273.15
+}
+
+export function meltingTemperature(
+  sequence: string,
+  conditions: ReactionConditions = DEFAULT_REACTION_CONDITIONS
+): { min: number; max: number } | null {
+  const variants = expandSequence(sequence)
+  if (!variants) return null
+  const tms = variants.map((v) => variantTm(v, conditions)).filter((tm): tm is number => tm !== null)
+  if (tms.length === 0) return null
+  return { min: Math.min(...tms), max: Math.max(...tms) }
+}
+
+function hairpinLoopDeltaG(length: number): number {
+  const exact = HAIRPIN_LOOP_DG.find(([n]) => n === length)
+  if (exact) return exact[1]
+  const below = HAIRPIN_LOOP_DG.filter(([n]) => n < length).pop() as [number, number]
+  return below[1] + (2.44 * R * T37 * Math.log(length / below[0])) / 1000
+}
+
+// Most stable hairpin of an unambiguous sequence
+function variantHairpin(seq: string, conditions: ReactionConditions): SecondaryStructure | null {
+  let best: SecondaryStructure | null = null
+  for (let i = 0; i < seq.length; i++) {
+    for (let j = seq.length - 1; j > i + MIN_HAIRPIN_LOOP; j--) {
+      if (!isComplementary(seq[i], seq[j])) continue
+      // Only start at the outermost pair of a stem
+      if (i > 0 && j < seq.length - 1 && isComplementary(seq[i - 1], seq[j + 1])) continue
+      let stem = 1
+      while (
+        j - stem - (i + stem) - 1 >= MIN_HAIRPIN_LOOP &&
+        isComplementary(seq[i + stem], seq[j - stem])
+      ) {
+        stem++
+      }
+      if (stem < MIN_STEM) continue
+      const loop = j - stem - (i + stem - 1)
+      const stack = stackEnergy(seq, i, i + stem - 1)
+      const terminal = terminalPenalty([seq[i]])
+      const dG =
+        deltaG37(stack.dH + terminal.dH, stack.dS + terminal.dS + saltCorrection(stem, conditions)) +
+        hairpinLoopDeltaG(loop)
+      if (!best || dG < best.deltaG) {
+        const dotBracket =
+          '.'.repeat(i) + '('.repeat(stem) + '.'.repeat(loop) + ')'.repeat(stem) + '.'.repeat(seq.length - j - 1)
+        best = { deltaG: dG, structure: [seq, dotBracket] }
+      }
+    }
+  }
+  return best
+}
+
+// Most stable duplex between two unambiguous sequences (both given 5'->3')
+function variantDimer(a: string, b: string, conditions: ReactionConditions): SecondaryStructure | null {
+  const rb = b.split('').reverse().join('') // 3'->5', antiparallel to a
+  let best: SecondaryStructure | null = null
+  // a[i] faces rb[i - offset]
+  for (let offset = -(rb.length - 1); offset < a.length; offset++) {
+    let run = 0
+    for (let i = Math.max(0, offset); i <= Math.min(a.length, rb.length + offset); i++) {
+      const paired = i < a.length && i - offset < rb.length && isComplementary(a[i], rb[i - offset])
+      if (paired) {
+        run++
+        continue
+      }
+      if (run >= MIN_STEM) {
+        const start = i - run
+        const stack = stackEnergy(a, start, i - 1)
+        const terminal = terminalPenalty([a[start], a[i - 1]])
+        const dG = deltaG37(
+          stack.dH + INIT.dH + terminal.dH,
+          stack.dS + INIT.dS + terminal.dS + saltCorrection(run, conditions)
+        )
+        if (!best || dG < best.deltaG) {
+          best = { deltaG: dG, structure: drawDimer(a, rb, offset, start, i - 1) }
+        }
+      }
+      run = 0
+    }
+  }
+  return best
+}
+
+function drawDimer(a: string, rb: string, offset: number, start: number, end: number): string[] {
+  const shiftA = Math.max(0, -offset)
+  const shiftB = Math.max(0, offset)
+  const top = ' '.repeat(shiftA) + a
+  const bottom = ' '.repeat(shiftB) + rb
+  const bars = ' '.repeat(start + shiftA) + '|'.repeat(end - start + 1)
+  return [`5' ${top} 3'`, `   ${bars}`, `3' ${bottom} 5'`]
+}
+
+function mostStable(structures: Array<SecondaryStructure | null>): SecondaryStructure | null {
+  return structures.reduce<SecondaryStructure | null>(
+    (best, s) => (s && (!best || s.deltaG < best.deltaG) ? s : best),
+    null
+  )
+}
+
+export function hairpin(
+  sequence: string,
+  conditions: ReactionConditions = DEFAULT_REACTION_CONDITIONS
+): SecondaryStructure | null {
+  const variants = expandSequence(sequence)
+  return variants ? mostStable(variants.map((v) => variantHairpin(v, conditions))) : null
+}
+
+// Most stable duplex between two oligos; for degenerate oligos the worst case over all variant pairs
+export function dimer(
+  sequenceA: string,
+  sequenceB: string,
+  conditions: ReactionConditions = DEFAULT_REACTION_CONDITIONS
+): SecondaryStructure | null {
+  const variantsA = expandSequence(sequenceA)
+  const variantsB = expandSequence(sequenceB)
+  if (!variantsA || !variantsB || variantsA.length * variantsB.length > MAX_VARIANTS) return null
+  return mostStable(variantsA.flatMap((a) => variantsB.map((b) => variantDimer(a, b, conditions))))
+}
+
+export function selfDimer(
+  sequence: string,
+  conditions: ReactionConditions = DEFAULT_REACTION_CONDITIONS
+): SecondaryStructure | null {
+  const variants = expandSequence(sequence)
+  return variants ? mostStable(variants.map((v) => variantDimer(v, v, conditions))) : null
+}
+
+export function analyzeOligo(
+  sequence: string,
+  conditions: ReactionConditions = DEFAULT_REACTION_CONDITIONS
+): OligoAnalysis {
+  const seq = normalizeSequence(sequence)
+  const tm = meltingTemperature(seq, conditions)
+  const invalidSequence = !isIupacSequence(seq)
+  return {
+    length: seq.length,
+    gcContent: gcContent(seq),
+    tmMin: tm ? tm.min : null,
+    tmMax: tm ? tm.max : null,
+    hairpin: hairpin(seq, conditions),
+    selfDimer: selfDimer(seq, conditions),
+    invalidSequence,
+    tooManyVariants: !invalidSequence && expandSequence(seq) === null,
+  }
+}
+
+// Tm for display: a single value, or a range for degenerate oligos
+export function formatTm(analysis: OligoAnalysis): string {
+  if (analysis.tmMin === null || analysis.tmMax === null) return 'n/a'
+  if (analysis.tmMax - analysis.tmMin < 0.05) return analysis.tmMin.toFixed(1)
+  return `${analysis.tmMin.toFixed(1)}–${analysis.tmMax.toFixed(1)}`
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest'
+import { detectSequenceFormat, parseSequenceFile, readSequenceFile } from '@/lib/sequenceFile'
+
+const GENBANK = [
+  'LOCUS       HBV_S        30 bp    DNA     linear   VRL 01-JAN-2024',
+  'DEFINITION  Hepatitis B virus surface antigen gene,',
+  '            partial cds.',
+  'ACCESSION   HBV_S',
+  'FEATURES             Location/Qualifiers',
+  '     source          1..30',
+  'ORIGIN',
+  '        1 acgtacgtac gtacgtacgt',
+  '       21 ttttaaaacc',
+  '//',
+  'LOCUS       ACTB_X       12 bp    DNA     linear   PRI 01-JAN-2024',
+  'DEFINITION  Beta actin.',
+  'ORIGIN',
+  '        1 ggggcccctt aa',
+  '//',
+  '',
+].join('\n')
+
+describe('parseSequenceFile', () => {
+  it('handles CRLF and CR line endings', () => {
+    const expected = [
+      { name: 'a', description: 'first', sequence: 'ACGTACGT' },
+      { name: 'b', description: '', sequence: 'TTTT' },
+    ]
+    expect(parseSequenceFile('>a first\r\nACGT\r\nacgt\r\n>b\r\nTTTT\r\n').records).toEqual(expected)
+    expect(parseSequenceFile('>a first\rACGT\racgt\r>b\rTTTT\r').records).toEqual(expected)
+  })
+
+  it('drops a byte order mark', () => {
+    const parsed = parseSequenceFile('\uFEFF>a\nACGT\n')
+    expect(parsed.format).toBe('fasta')
+    expect(parsed.records).toEqual([{ name: 'a', description: '', sequence: 'ACGT' }])
+  })
+
+  it('skips FASTA comment lines', () => {
+    const parsed = parseSequenceFile(';exported by tool\n>a\n;inline comment\nACGT\nTT*\n')
+    expect(parsed.format).toBe('fasta')
+    expect(parsed.records).toEqual([{ name: 'a', description: '', sequence: 'ACGTTT' }])
+  })
+
+  it('keeps sequence lines before the first header as an unnamed record', () => {
+    const parsed = parseSequenceFile('ACGT\nGG\n>b\nTTTT\n')
+    expect(parsed.format).toBe('fasta')
+    expect(parsed.records).toEqual([
+      { name: 'Sequence_1', description: '', sequence: 'ACGTGG' },
+      { name: 'b', description: '', sequence: 'TTTT' },
+    ])
+  })
+
+  it('parses multi-record GenBank files with DEFINITION continuation lines', () => {
+    const parsed = parseSequenceFile(GENBANK)
+    expect(parsed.format).toBe('genbank')
+    expect(parsed.records).toEqual([
+      {
+        name: 'HBV_S',
+        description: 'Hepatitis B virus surface antigen gene, partial cds',
+        sequence: 'ACGTACGTACGTACGTACGTTTTTAAAACC',
+      },
+      { name: 'ACTB_X', description: 'Beta actin', sequence: 'GGGGCCCCTTAA' },
+    ])
+  })
+
+  it('skips a TSV header row and keeps extra columns as description', () => {
+    const parsed = parseSequenceFile('name\tsequence\tnote\nfwd\tacgt acgt\tforward primer\nrev\tTTTT\n')
+    expect(parsed.format).toBe('tsv')
+    expect(parsed.records).toEqual([
+      { name: 'fwd', description: 'forward primer', sequence: 'ACGTACGT' },
+      { name: 'rev', description: '', sequence: 'TTTT' },
+    ])
+  })
+
+  it('throws on a TSV line without a tab', () => {
+    expect(() => parseSequenceFile('fwd\tACGT\nrev TTTT\n')).toThrow(
+      'Line 2: expected a name and a sequence separated by a tab'
+    )
+  })
+
+  it('uses the title line of a plain-text export', () => {
+    const parsed = parseSequenceFile('pUC19 fragment (60 bp)\n1 acgtacgtac gtacgtacgt\n21 ttttaaaa\n', 'export.txt')
+    expect(parsed.format).toBe('plain')
+    expect(parsed.records).toEqual([
+      { name: 'pUC19', description: 'fragment (60 bp)', sequence: 'ACGTACGTACGTACGTACGTTTTTAAAA' },
+    ])
+  })
+
+  it('recognizes titles made of IUPAC letters only', () => {
+    expect(parseSequenceFile('gag\n1 acgtacgtac\n11 ggcc\n').records).toEqual([
+      { name: 'gag', description: '', sequence: 'ACGTACGTACGGCC' },
+    ])
+    expect(parseSequenceFile('ACTB\nACGTACGTAC\nGGCC\n').records).toEqual([
+      { name: 'ACTB', description: '', sequence: 'ACGTACGTACGGCC' },
+    ])
+  })
+
+  it('keeps wrapped plain sequence without a title and names it after the file', () => {
+    expect(parseSequenceFile('ACGTACGTAC\nGGCC\n', 'dir/amplicon.txt').records).toEqual([
+      { name: 'amplicon', description: '', sequence: 'ACGTACGTACGGCC' },
+    ])
+    expect(parseSequenceFile('ACGT\n', 'single.txt').records).toEqual([
+      { name: 'single', description: '', sequence: 'ACGT' },
+    ])
+  })
+
+  it('returns no records for an empty file', () => {
+    expect(parseSequenceFile('')).toEqual({ format: 'plain', records: [] })
+    expect(parseSequenceFile('\uFEFF\r\n\r\n')).toEqual({ format: 'plain', records: [] })
+  })
+})
+
+describe('detectSequenceFormat', () => {
+  it('detects FASTA from a header that is not on the first line', () => {
+    expect(detectSequenceFormat('\n\n>a\nACGT\n')).toBe('fasta')
+  })
+
+  it('prefers FASTA over TSV when headers are present', () => {
+    expect(detectSequenceFormat('>a\tdescription\nACGT\n')).toBe('fasta')
+  })
+})
+
+describe('readSequenceFile', () => {
+  it('decodes UTF-8', async () => {
+    const file = new File([new TextEncoder().encode('>Café\nACGT\n')], 'utf8.fasta')
+    expect(await readSequenceFile(file)).toBe('>Café\nACGT\n')
+  })
+
+  it('falls back to Windows-1252 on invalid UTF-8', async () => {
+    // "Café" with é as the single byte 0xE9
+    const bytes = Uint8Array.from([0x3e, 0x43, 0x61, 0x66, 0xe9, 0x0a, 0x41, 0x43, 0x47, 0x54, 0x0a])
+    const content = await readSequenceFile(new File([bytes], 'cp1252.fasta'))
+    expect(content).toBe('>Café\nACGT\n')
+    expect(parseSequenceFile(content).records).toEqual([{ name: 'Café', description: '', sequence: 'ACGT' }])
+  })
+})
@@ -0,0 +1,208 @@
+// Parsing of uploaded sequence files, shared by the oligo and assay imports.
+// Supports FASTA, GenBank flat files, tab-separated name/sequence lists and plain-text
+// sequence exports (e.g. SnapGene .txt). Sequences are returned uppercased without whitespace
+// but otherwise unvalidated, so the caller can report invalid characters per record.
+
+export type SequenceFileFormat = 'fasta' | 'genbank' | 'tsv' | 'plain'
+
+// File extensions offered in the file pickers
+export const SEQUENCE_FILE_ACCEPT = '.fasta,.fa,.fas,.fna,.ffn,.gb,.gbk,.genbank,.tsv,.tab,.txt'
+
+export interface SequenceRecord {
+  name: string // header up to the first whitespace
+  description: string // rest of the header, '' if there is none
+  sequence: string
+}
+
+export interface ParsedSequenceFile {
+  format: SequenceFileFormat
+  records: SequenceRecord[]
+}
+
+// Decode as UTF-8 and fall back to Windows-1252 (Excel/Notepad on Windows) on invalid bytes
+export async function readSequenceFile(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer()
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer)
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer)
+  }
+}
+
+// Split into lines independent of the line ending (LF, CRLF, CR) and drop a byte order mark
+function toLines(content: string): string[] {
+  return content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/)
+}
+
+function cleanSequence(value: string): string {
+  return value.replace(/\s/g, '').toUpperCase()
+}
+
+// GenBank and plain-text exports number the sequence lines
+function cleanNumberedSequence(value: string): string {
+  return value.replace(/[\s\d]/g, '').toUpperCase()
+}
+
+function splitHeader(header: string): { name: string; description: string } {
+  const trimmed = header.trim()
+  const spaceIndex = trimmed.search(/\s/)
+  if (spaceIndex === -1) {
+    return { name: trimmed, description: '' }
+  }
+  return { name: trimmed.substring(0, spaceIndex), description: trimmed.substring(spaceIndex + 1).trim() }
+}
+
+function fileBaseName(fileName: string | undefined): string {
+  return fileName ? fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]*$/, '') : ''
+}
+
+export function detectSequenceFormat(content: string): SequenceFileFormat {
+  const lines = toLines(content)
+  const firstLine = lines.find((line) => line.trim() !== '')?.trim() || ''
+  if (/^LOCUS\s/.test(firstLine)) return 'genbank'
+  if (firstLine.startsWith(';') || lines.some((line) => line.trim().startsWith('>'))) return 'fasta'
+  if (lines.some((line) => line.includes('\t'))) return 'tsv'
+  return 'plain'
+}
+
+// Lines starting with ';' are comments. Sequence lines before the first header form an unnamed record.
+function parseFasta(lines: string[]): SequenceRecord[] {
+  const records: SequenceRecord[] = []
+  let current: SequenceRecord | null = null
+
+  for (const line of lines) {
+    const trimmed = line.trim()
+    if (!trimmed || trimmed.startsWith(';')) continue
+
+    if (trimmed.startsWith('>')) {
+      const { name, description } = splitHeader(trimmed.substring(1))
+      current = { name, description, sequence: '' }
+      records.push(current)
+    } else {
+      if (!current) {
+        current = { name: '', description: '', sequence: '' }
+        records.push(current)
+      }
+      // A trailing '*' marks the end of the sequence in some FASTA writers
+      current.sequence += cleanSequence(trimmed.replace(/\*$/, ''))
+    }
+  }
+
+  return records
+}
+
+// One record per LOCUS ... // block; the DEFINITION (including continuation lines) is the description
+function parseGenbank(lines: string[]): SequenceRecord[] {
+  const records: SequenceRecord[] = []
+  let current: SequenceRecord | null = null
+  let section = ''
+
+  for (const line of lines) {
+    if (/^LOCUS\s/.test(line)) {
+      current = { name: line.trim().split(/\s+/)[1] || '', description: '', sequence: '' }
+      records.push(current)
+      section = 'LOCUS'
+      continue
+    }
+    if (!current) continue
+
+    if (line.startsWith('//')) {
+      current = null
+      section = ''
+    } else if (/^[A-Z]/.test(line)) {
+      // A keyword in the first column starts a new section
+      section = line.split(/\s+/)[0]
+      if (section === 'DEFINITION') {
+        current.description = line.substring('DEFINITION'.length).trim()
+      }
+    } else if (section === 'DEFINITION' && line.trim()) {
+      current.description += ` ${line.trim()}`
+    } else if (section === 'ORIGIN') {
+      current.sequence += cleanNumberedSequence(line)
+    }
+  }
+
+  records.forEach((record) => {
+    record.description = record.description.replace(/\.$/, '')
+  })
+  return records
+}
+
+// name<TAB>sequence[<TAB>description]. '#' lines are comments; a header row such as
+// "name<TAB>sequence" is skipped because its second column is not a sequence.
+function parseTsv(lines: string[]): SequenceRecord[] {
+  const records: SequenceRecord[] = []
+
+  lines.forEach((line, idx) => {
+    const trimmed = line.trim()
+    if (!trimmed || trimmed.startsWith('#')) return
+
+    const columns = line.split('\t').map((column) => column.trim())
+    if (columns.length < 2) {
+      throw new Error(`Line ${idx + 1}: expected a name and a sequence separated by a tab`)
+    }
+    if (records.length === 0 && /^sequence$|^seq$|^dna_sequence$/i.test(columns[1])) return
+
+    records.push({
+      name: columns[0],
+      description: columns.slice(2).join(' ').trim(),
+      sequence: cleanSequence(columns[1]),
+    })
+  })
+
+  return records
+}
+
+// A sequence line with a leading or trailing position number, e.g. "1 acgtacgtac gtacgtacgt"
+const NUMBERED_LINE = /^\s*\d+\s|\s\d+\s*$/
+
+// Whether the first line of a plain-text file is a title rather than sequence. Titles may consist of
+// IUPAC letters only ("gag", "ACTB"), so this is decided by the line structure: sequence lines are
+// either numbered or wrapped at a fixed width, i.e. an unnumbered first line of sequence is at least
+// as long as the next one.
+function isTitleLine(first: string, next: string | undefined): boolean {
+  if (next === undefined || NUMBERED_LINE.test(first)) return false
+  if (/[^ACGTURYSWKMBDHVN\s-]/i.test(first)) return true
+  return NUMBERED_LINE.test(next) || cleanSequence(first).length < cleanNumberedSequence(next).length
+}
+
+// Plain sequence, optionally numbered and optionally preceded by a title line (SnapGene .txt export).
+// The record is named after the title line or the file name.
+function parsePlain(lines: string[], fileName: string | undefined): SequenceRecord[] {
+  const content = lines.filter((line) => line.trim() !== '')
+  if (content.length === 0) return []
+
+  let title = ''
+  if (isTitleLine(content[0], content[1])) {
+    title = content[0]
+    content.shift()
+  }
+  const { name, description } = splitHeader(title || fileBaseName(fileName))
+  return [{ name, description, sequence: cleanNumberedSequence(content.join('')) }]
+}
+
+// Parse a sequence file of any supported format. Records without a name get "Sequence_<n>".
+export function parseSequenceFile(content: string, fileName?: string): ParsedSequenceFile {
+  const format = detectSequenceFormat(content)
+  const lines = toLines(content)
+
+  let records: SequenceRecord[]
+  switch (format) {
+    case 'fasta':
+      records = parseFasta(lines)
+      break
+    case 'genbank':
+      records = parseGenbank(lines)
+      break
+    case 'tsv':
+      records = parseTsv(lines)
+      break
+    default:
+      records = parsePlain(lines, fileName)
+  }
+
+  return {
+    format,
+    records: records.map((record, idx) => ({ ...record, name: record.name || `Sequence_${idx + 1}` })),
+  }
+}
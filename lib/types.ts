@@ -0,0 +1,200 @@
+// Shared type definitions for rows returned by the Supabase RPC functions.
+// Field names follow the database columns so they can be matched against the
+// function documentation (see *_supabase_function(s).md in the repo root).
+
+export interface TaxID {
+  entry_id: number
+  taxid: number
+  created_at: string
+  taxid_spec: string | null
+}
+
+export interface UserAssay {
+  assay_id: number
+  assay_name: string
+  target_taxid: number | null // references taxid_surveillance.entry_id
+  target_gene: string | null
+  assay_ref_amplicon: number // current version of the reference amplicon
+  amplicon_name: string | null
+  amplicon_version: number
+  created_at: string
+}
+
+// Replacing the sequence of a reference amplicon adds a new version; BLAST jobs keep
+// referencing the version they were ordered with
+export interface ReferenceAmplicon {
+  amplicon_id: number
+  amplicon_name: string | null
+  amplicon_seq: string
+  amplicon_version: number
+  created_at: string
+}
+
+export type OligoRole = 'forward' | 'reverse' | 'probe'
+
+// Strand of the reference amplicon the oligo sequence is identical to
+export type OligoStrand = 'sense' | 'antisense'
+
+export interface Oligo {
+  oligo_id: number
+  sequence_name: string
+  dna_sequence: string
+  created_at: string
+  assay_id: number | null
+  role: OligoRole | null
+  strand: OligoStrand | null
+}
+
+// One changed field of an oligo edit, written by update_user_oligo
+export interface OligoHistoryEntry {
+  history_id: number
+  oligo_id: number
+  field: 'sequence_name' | 'dna_sequence'
+  old_value: string
+  new_value: string
+  changed_by_name: string | null // user_name from the user settings at the time of the change
+  changed_at: string
+}
+
+export interface UserSettings {
+  user_name: string | null
+  user_institution: string | null
+}
+
+export interface DashboardEntry {
+  entry_id: number
+  assay_id: number
+  lookback_days: number | null
+  last_checked: string | null
+  nuccor_entries_found: number | null
+  nuccor_queue_entry: number | null
+}
+
+export interface BlastPlanningEntry {
+  planner_entry_id: number
+  assay_id: number
+  assay_name: string
+  oligo_count: number
+}
+
+// Oligo as stored in the alignjob_oligos JSONB column
+export interface AlignJobOligo {
+  id: string
+  sequence: string
+  role: OligoRole | null // null for jobs ordered before oligo roles existed
+  strand: OligoStrand | null
+}
+
+export interface BlastAlignerJob {
+  align_id: number
+  created_at: string
+  user_auth: string
+  alignjob_status: string
+  alignjob_assay_id: number
+  alignjob_taxid: number
+  alignjob_date_from: string
+  alignjob_date_to: string
+  alignjob_reference_seq: string
+  alignjob_amplicon_id: number | null // null for jobs ordered before amplicon versioning
+  alignjob_amplicon_version: number | null
+  alignjob_oligos: AlignJobOligo[]
+  alignjob_identity: number | null
+  alignjob_coverage: number | null
+  alignjob_match_score: number | null
+  alignjob_mismatch_score: number | null
+  alignjob_opengap: number | null
+  alignjob_extendgap: number | null
+  alignjob_oligo_min_cover: number | null
+  alignjob_result: ResultData | null
+}
+
+export interface ResultPattern {
+  count: number
+  pattern: string
+  examples: string[]
+  matched_oligos: number
+  total_mismatches: number
+}
+
+export interface ResultStatistics {
+  alignment_rate: number
+  total_blast_hits: number
+  sequences_aligned: number
+  filtered_blast_hits: number
+  sequences_with_min_matches: number
+}
+
+export interface OligoStats {
+  match_rate: number
+  sense_matches: number
+  total_matches: number
+  antisense_matches: number
+}
+
+// Content of the alignjob_result JSONB column
+export interface ResultData {
+  error: string | null
+  success: boolean
+  patterns: ResultPattern[]
+  statistics: ResultStatistics
+  per_oligo_stats: Record<string, OligoStats>
+}
+
+// Parameters shared by every BLAST aligner job
+export interface BlastJobParameters {
+  identity: number
+  coverage: number
+  matchScore: number
+  mismatchScore: number
+  openGap: number
+  extendGap: number
+  oligoMinCover: number
+}
+
+export interface OrderBlastJobInput extends BlastJobParameters {
+  plannerEntryId: number
+  dateFrom: string
+  dateTo: string
+}
+
+// all_or_nothing: no job is ordered if any entry fails; best_effort: every valid entry is ordered
+export type BatchOrderMode = 'all_or_nothing' | 'best_effort'
+
+export interface BatchOrderResult {
+  planner_entry_id: number
+  success: boolean
+  align_id: number | null
+  error: string | null
+  rolled_back: boolean // entry was valid but not ordered because another entry failed (all_or_nothing)
+}
+
+export type ScheduleFrequency = 'weekly' | 'monthly' | 'quarterly'
+
+// Recurring BLAST job for one assay. The backend orders a job when next_run_at is reached,
+// covering the lookback_days before the run date, and then advances next_run_at.
+export interface BlastSchedule {
+  schedule_id: number
+  assay_id: number
+  assay_name: string
+  frequency: ScheduleFrequency
+  lookback_days: number
+  parameters: BlastJobParameters
+  is_paused: boolean
+  next_run_at: string
+  last_run_at: string | null
+  last_align_id: number | null
+  created_at: string
+}
+
+// Named set of BLAST parameters. Shared presets are visible to all users of the same institution;
+// is_default is per user (a user may pick a preset shared by someone else as default).
+export interface BlastParameterPreset {
+  preset_id: number
+  preset_name: string
+  parameters: BlastJobParameters
+  is_shared: boolean
+  is_own: boolean
+  is_default: boolean
+  owner_name: string | null
+  created_at: string
+}